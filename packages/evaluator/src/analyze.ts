@@ -0,0 +1,86 @@
+import { AnalyzeRequest, EvaluationResult, ModelUsage, ReportAnalysisRequest, createLogger, distillLearnings, mergeUsage } from '@sral/shared';
+import { evaluateArtifact } from './evaluate.js';
+
+interface Env {
+  R2_BUCKET: R2Bucket;
+  AI: Ai;
+  ORCHESTRATOR: DurableObjectNamespace;
+}
+
+// How many artifacts of a wave are evaluated at the same time.
+export const ANALYSIS_CONCURRENCY = 4;
+
+/** Maps `items` through `task`, running at most `limit` tasks at a time. Results keep the input order. */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Evaluates every artifact of a wave and reports the results back to the
+ * orchestrator. Artifacts that cannot be evaluated are logged and left out
+ * of the report, so one bad artifact never holds up the wave.
+ */
+export async function handleAnalysis(payload: AnalyzeRequest, env: Env): Promise<void> {
+  const { orchestrator_id, artifacts, scorecard, wave_number, previous_learnings_md } = payload;
+  const logger = createLogger('evaluator', { projectId: orchestrator_id, waveNumber: wave_number });
+
+  logger.info('Starting wave analysis', { artifacts: artifacts.length });
+
+  // LLM calls are paid for whether or not their artifact makes it into the report.
+  const usage: ModelUsage[] = [];
+
+  const evaluations = await mapWithConcurrency(artifacts, ANALYSIS_CONCURRENCY, async (artifact): Promise<EvaluationResult | null> => {
+    try {
+      const evaluation = await evaluateArtifact(artifact.r2_path, scorecard, env);
+      if (!evaluation) {
+        logger.warn('Artifact not found', { artifactId: artifact.id, path: artifact.r2_path });
+        return null;
+      }
+      const { usage: evaluationUsage = [], ...result } = evaluation;
+      usage.push(...evaluationUsage);
+      return { artifact_id: artifact.id, ...result };
+    } catch (error) {
+      logger.error('Artifact evaluation failed', error instanceof Error ? error : new Error(String(error)), {
+        artifactId: artifact.id,
+      });
+      return null;
+    }
+  });
+
+  const results = evaluations.filter((result): result is EvaluationResult => result !== null);
+  const report: ReportAnalysisRequest = {
+    wave_number,
+    results,
+    learnings_md: distillLearnings(results, previous_learnings_md, wave_number),
+    usage: mergeUsage(usage),
+  };
+
+  try {
+    const orchestrator = env.ORCHESTRATOR.get(env.ORCHESTRATOR.idFromString(orchestrator_id));
+    const response = await orchestrator.fetch('https://orchestrator.internal/report/analysis', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(report),
+    });
+    if (!response.ok) {
+      throw new Error(`Orchestrator responded with ${response.status}`);
+    }
+
+    logger.info('Analysis reported to orchestrator', { evaluated: report.results.length });
+  } catch (error) {
+    logger.error('Failed to report analysis to orchestrator', error instanceof Error ? error : new Error(String(error)));
+  }
+}
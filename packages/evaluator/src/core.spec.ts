@@ -14,6 +14,7 @@ import { handleLLMEvaluation } from './handlers/llm.js';
 
 // Import the default export (the worker)
 import worker from './index.js';
+import { ANALYSIS_CONCURRENCY } from './analyze.js';
 
 describe('Evaluator Worker Core Logic', () => {
   let mockEnv: any;
@@ -60,7 +61,7 @@ describe('Evaluator Worker Core Logic', () => {
   });
 
   describe('Request Body Validation', () => {
-    it('should handle invalid JSON with 500 error', async () => {
+    it('should reject invalid JSON with a structured 400 error', async () => {
       const request = new Request('http://localhost/', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -69,13 +70,13 @@ describe('Evaluator Worker Core Logic', () => {
       
       const response = await worker.fetch(request, mockEnv, {} as ExecutionContext);
       
-      expect(response.status).toBe(500);
+      expect(response.status).toBe(400);
       const responseData = await response.json();
-      expect(responseData).toHaveProperty('error');
-      expect(responseData.error).toBe('Evaluation failed for artifact');
+      expect(responseData.error).toBe('Invalid request body');
+      expect(responseData.issues).toEqual([{ path: '(root)', message: 'must be valid JSON' }]);
     });
 
-    it('should handle missing artifact_path in request body', async () => {
+    it('should reject missing artifact_path in request body', async () => {
       const request = new Request('http://localhost/', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -86,20 +87,13 @@ describe('Evaluator Worker Core Logic', () => {
       
       const response = await worker.fetch(request, mockEnv, {} as ExecutionContext);
       
-      // Request with missing artifact_path triggers empty evaluation or error
-      if (response.status === 200) {
-        const responseData = await response.json();
-        // Should return empty scorecard result with score 0
-        expect(responseData).toHaveProperty('quality_score');
-        expect(responseData.quality_score).toBe(0);
-      } else {
-        expect([404, 500]).toContain(response.status);
-        const responseData = await response.json();
-        expect(responseData).toHaveProperty('error');
-      }
+      expect(response.status).toBe(400);
+      const responseData = await response.json();
+      expect(responseData.issues).toEqual([{ path: 'artifact_path', message: 'is required' }]);
+      expect(mockEnv.R2_BUCKET.get).not.toHaveBeenCalled();
     });
 
-    it('should handle missing scorecard in request body', async () => {
+    it('should reject missing scorecard in request body', async () => {
       const request = new Request('http://localhost/', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -110,9 +104,199 @@ describe('Evaluator Worker Core Logic', () => {
       
       const response = await worker.fetch(request, mockEnv, {} as ExecutionContext);
       
-      expect(response.status).toBe(500);
+      expect(response.status).toBe(400);
+      const responseData = await response.json();
+      expect(responseData.issues).toEqual([{ path: 'scorecard', message: 'must be an object, got undefined' }]);
+    });
+
+    it('should list every invalid scorecard field path', async () => {
+      const request = new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          artifact_path: 'test.ts',
+          scorecard: {
+            tests: [
+              { type: 'linter', weight: 'heavy', config: {} },
+              { weight: 0.5 },
+            ],
+          },
+        }),
+      });
+
+      const response = await worker.fetch(request, mockEnv, {} as ExecutionContext);
+
+      expect(response.status).toBe(400);
+      const responseData = await response.json();
+      expect(responseData.issues).toEqual([
+        { path: 'scorecard.tests[0].weight', message: 'must be a number, got string' },
+        { path: 'scorecard.tests[1].type', message: 'is required' },
+        { path: 'scorecard.tests[1].config', message: 'is required' },
+      ]);
+    });
+  });
+
+  describe('Scorecard Dry Run', () => {
+    const validate = (body: unknown) =>
+      worker.fetch(
+        new Request('http://localhost/scorecard/validate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+        mockEnv,
+        {} as ExecutionContext
+      );
+
+    it('should return the normalized scorecard without touching R2 or handlers', async () => {
+      const response = await validate({
+        tests: [
+          { type: 'linter', weight: 1, config: {} },
+          { type: 'llm_evaluation', weight: 1, config: { prompt: 'Rate it' } },
+        ],
+      });
+
+      expect(response.status).toBe(200);
+      const responseData = await response.json();
+      expect(responseData.valid).toBe(true);
+      expect(responseData.scorecard.tests.map((test: any) => test.weight)).toEqual([0.5, 0.5]);
+      expect(mockEnv.R2_BUCKET.get).not.toHaveBeenCalled();
+      expect(handleLinter).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown types, duplicates and missing config', async () => {
+      const response = await validate({
+        tests: [
+          { type: 'linter', weight: 0.5, config: {} },
+          { type: 'linter', weight: 0.5, config: {} },
+          { type: 'llm_evaluation', weight: 0.5, config: { prompt: '' } },
+          { type: 'unknown_test', weight: 0.5, config: {} },
+        ],
+      });
+
+      expect(response.status).toBe(400);
+      const responseData = await response.json();
+      expect(responseData.error).toBe('Invalid scorecard');
+      expect(responseData.issues.map((issue: any) => issue.path)).toEqual([
+        'tests[1].type',
+        'tests[2].config.prompt',
+        'tests[3].type',
+      ]);
+    });
+  });
+
+  describe('Batch Analysis', () => {
+    const orchestratorFetch = vi.fn();
+    const analyze = (body: unknown, ctx: ExecutionContext) =>
+      worker.fetch(
+        new Request('http://localhost/analyze', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+        mockEnv,
+        ctx
+      );
+
+    beforeEach(() => {
+      orchestratorFetch.mockReset().mockResolvedValue(new Response(JSON.stringify({ received: true })));
+      mockEnv.ORCHESTRATOR = {
+        idFromString: vi.fn().mockReturnValue('orchestrator-id'),
+        get: vi.fn().mockReturnValue({ fetch: orchestratorFetch }),
+      };
+    });
+
+    it('should accept a wave with 202 and report results back to the orchestrator', async () => {
+      (handleLinter as any).mockResolvedValue({ score: 90, details: {} });
+      mockEnv.R2_BUCKET.get.mockImplementation(async (path: string) => (path === 'missing.html' ? null : mockR2Object));
+      const ctx = { waitUntil: vi.fn() };
+
+      const response = await analyze({
+        orchestrator_id: 'abc123',
+        artifacts: [
+          { id: 'artifact-1', r2_path: 'wave-1/artifact-1.html' },
+          { id: 'artifact-2', r2_path: 'missing.html' },
+          { id: 'artifact-3', r2_path: 'wave-1/artifact-3.html' },
+        ],
+        scorecard: { tests: [{ type: 'linter', weight: 1, config: {} }] },
+        wave_number: 3,
+        previous_learnings_md: '## Principles\n\n- Close every tag [artifact-0]',
+      }, ctx as unknown as ExecutionContext);
+
+      expect(response.status).toBe(202);
+      expect(ctx.waitUntil).toHaveBeenCalledTimes(1);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      expect(mockEnv.ORCHESTRATOR.idFromString).toHaveBeenCalledWith('abc123');
+      const [url, init] = orchestratorFetch.mock.calls[0];
+      expect(url).toBe('https://orchestrator.internal/report/analysis');
+      expect(JSON.parse(init.body)).toEqual({
+        wave_number: 3,
+        results: [
+          { artifact_id: 'artifact-1', quality_score: 90, details: { linter: { score: 90, details: {} } } },
+          { artifact_id: 'artifact-3', quality_score: 90, details: { linter: { score: 90, details: {} } } },
+        ],
+        learnings_md: expect.stringMatching(/^## Principles\n\n- Close every tag \[artifact-0\]\n\n## Wave 3\n/),
+        usage: [],
+      });
+    });
+
+    it('should report the LLM usage of the whole wave per model', async () => {
+      const usage = { model: '@cf/meta/llama-3-8b-instruct', prompt_tokens: 300, completion_tokens: 40 };
+      (handleLLMEvaluation as any).mockResolvedValue({ score: 70, details: {}, usage });
+      mockEnv.R2_BUCKET.get.mockResolvedValue(mockR2Object);
+      const ctx = { waitUntil: vi.fn() };
+
+      await analyze({
+        orchestrator_id: 'abc123',
+        artifacts: [
+          { id: 'artifact-1', r2_path: 'wave-1/artifact-1.html' },
+          { id: 'artifact-2', r2_path: 'wave-1/artifact-2.html' },
+        ],
+        scorecard: { tests: [{ type: 'llm_evaluation', weight: 1, config: {} }] },
+        wave_number: 1,
+      }, ctx as unknown as ExecutionContext);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      const report = JSON.parse(orchestratorFetch.mock.calls[0][1].body);
+      expect(report.usage).toEqual([{ ...usage, prompt_tokens: 600, completion_tokens: 80 }]);
+      expect(report.results[0]).not.toHaveProperty('usage');
+    });
+
+    it('should evaluate at most a few artifacts at a time', async () => {
+      let running = 0;
+      let peak = 0;
+      (handleLinter as any).mockImplementation(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running--;
+        return { score: 50, details: {} };
+      });
+      const ctx = { waitUntil: vi.fn() };
+
+      await analyze({
+        orchestrator_id: 'abc123',
+        artifacts: Array.from({ length: 10 }, (_, index) => ({ id: `artifact-${index}`, r2_path: `artifact-${index}.html` })),
+        scorecard: { tests: [{ type: 'linter', weight: 1, config: {} }] },
+        wave_number: 1,
+      }, ctx as unknown as ExecutionContext);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      expect(handleLinter).toHaveBeenCalledTimes(10);
+      expect(peak).toBe(ANALYSIS_CONCURRENCY);
+      expect(JSON.parse(orchestratorFetch.mock.calls[0][1].body).results).toHaveLength(10);
+    });
+
+    it('should reject malformed batches without starting work', async () => {
+      const ctx = { waitUntil: vi.fn() };
+
+      const response = await analyze({ orchestrator_id: 'abc123', artifacts: [{ id: 'artifact-1' }] }, ctx as unknown as ExecutionContext);
+
+      expect(response.status).toBe(400);
       const responseData = await response.json();
-      expect(responseData).toHaveProperty('error');
+      expect(responseData.issues.map((issue: any) => issue.path)).toEqual(['artifacts[0].r2_path', 'scorecard', 'wave_number']);
+      expect(ctx.waitUntil).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,99 @@
+import { EvaluationResponse, ModelUsage, Scorecard, ScorecardTest, mergeUsage } from '@sral/shared';
+import { handleAccessibility } from './handlers/accessibility.js';
+import { handleHtmlValidation } from './handlers/html-validation.js';
+import { handleLinter } from './handlers/linter.js';
+import { handleLLMEvaluation } from './handlers/llm.js';
+
+interface Env {
+  R2_BUCKET: R2Bucket;
+  AI: Ai;
+}
+
+interface TestResult {
+  score: number;
+  details: Record<string, any>;
+  error?: string;
+  usage?: ModelUsage;
+}
+
+type TestHandler = (sourceCode: string, config: Record<string, any>, env: Env) => Promise<TestResult>;
+
+// Every type listed in SCORECARD_TEST_TYPES must have a handler here.
+const testHandlers = new Map<string, TestHandler>([
+  ['linter', handleLinter],
+  ['llm_evaluation', handleLLMEvaluation],
+  ['html_validation', handleHtmlValidation],
+  ['accessibility', handleAccessibility],
+]);
+
+/**
+ * Reads an artifact from R2 and runs every scorecard test against it.
+ * Returns null when the artifact does not exist.
+ */
+export async function evaluateArtifact(artifactPath: string, scorecard: Scorecard, env: Env): Promise<EvaluationResponse | null> {
+  const r2Object = await env.R2_BUCKET.get(artifactPath);
+  if (r2Object === null) {
+    return null;
+  }
+
+  return evaluateSource(await r2Object.text(), scorecard, env);
+}
+
+/** Runs every scorecard test in parallel and combines them into a weighted quality score. */
+async function evaluateSource(sourceCode: string, scorecard: Scorecard, env: Env): Promise<EvaluationResponse> {
+  const testPromises = scorecard.tests.map(async (test: ScorecardTest) => {
+    const handler = testHandlers.get(test.type);
+    if (!handler) {
+      return {
+        type: test.type,
+        weight: test.weight,
+        result: {
+          score: 0,
+          details: {},
+          error: `Unknown test type: ${test.type}`
+        }
+      };
+    }
+
+    try {
+      const result = await handler(sourceCode, test.config, env);
+      return {
+        type: test.type,
+        weight: test.weight,
+        result
+      };
+    } catch (error) {
+      return {
+        type: test.type,
+        weight: test.weight,
+        result: {
+          score: 0,
+          details: {},
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+  });
+
+  const testResults = await Promise.all(testPromises);
+
+  // Calculate weighted quality score
+  let totalWeightedScore = 0;
+  let totalWeight = 0;
+  const details: Record<string, any> = {};
+
+  for (const { type, weight, result } of testResults) {
+    totalWeightedScore += result.score * weight;
+    totalWeight += weight;
+    details[type] = result;
+  }
+
+  const quality_score = totalWeight > 0 ? totalWeightedScore / totalWeight : 0;
+  const usage = mergeUsage(testResults.flatMap(({ result }) => ('usage' in result && result.usage ? [result.usage] : [])));
+
+  return {
+    quality_score,
+    details,
+    ...(usage.length > 0 && { usage }),
+  };
+}
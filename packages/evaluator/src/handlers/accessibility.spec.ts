@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { handleAccessibility } from './accessibility.js';
+
+const mockEnv = {
+  R2_BUCKET: {} as R2Bucket,
+  AI: {} as Ai,
+};
+
+const accessiblePage = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <style>
+    :root { --ink: #1a1a1a; }
+    body { color: var(--ink); background: #ffffff url(noise.png); }
+    .badge { color: #fff; background: linear-gradient(#000, #333); }
+    .hint { color: #999; background-color: rgba(0, 0, 0, 0.5); }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>Data table</h1>
+    <label for="search">Search</label>
+    <input type="search" id="search">
+    <label><input type="checkbox"> Only active</label>
+    <input type="hidden" name="token">
+    <img src="logo.png" alt="">
+    <button><img src="x.svg" alt="Close"></button>
+    <a href="/next" aria-label="Next page"><svg aria-hidden="true"></svg></a>
+    <h2>Results</h2>
+    <h3>Filters</h3>
+  </main>
+</body>
+</html>`;
+
+describe('handleAccessibility', () => {
+  it('should return a perfect score for an accessible page', async () => {
+    const result = await handleAccessibility(accessiblePage, {}, mockEnv);
+
+    expect(result.details.messages).toEqual([]);
+    expect(result.score).toBe(100);
+  });
+
+  it('should report missing alt text, labels and accessible names', async () => {
+    const html = `<main>
+<img src="chart.png">
+<input type="text" id="q" placeholder="Search">
+<select></select>
+<button>  </button>
+<a href="/home"><img src="home.svg"></a>
+<div role="button"><span aria-hidden="true">x</span></div>
+</main>`;
+
+    const result = await handleAccessibility(html, {}, mockEnv);
+
+    expect(result.details.messages.map((msg: any) => [msg.line, msg.ruleId, msg.message])).toEqual([
+      [2, 'image-alt', '<img> is missing alt text'],
+      [3, 'input-label', '<input type="text"> has no associated label'],
+      [4, 'input-label', '<select> has no associated label'],
+      [5, 'button-name', 'Button has no accessible name'],
+      [6, 'link-name', 'Link has no accessible name'],
+      [6, 'image-alt', '<img> is missing alt text'],
+      [7, 'button-name', 'Button has no accessible name'],
+    ]);
+    expect(result.score).toBe(30);
+  });
+
+  it('should warn about a missing main landmark and skipped heading levels', async () => {
+    const html = `<body>
+  <h1>Title</h1>
+  <h3>Skipped</h3>
+  <h2>Back</h2>
+  <h4>Skipped again</h4>
+</body>`;
+
+    const result = await handleAccessibility(html, {}, mockEnv);
+
+    expect(result.details.messages).toEqual([
+      { line: 1, column: 1, severity: 'warning', message: 'Document has no <main> landmark', ruleId: 'landmark-main' },
+      { line: 3, column: 3, severity: 'warning', message: '<h3> skips from <h1>; heading levels should only increase by one', ruleId: 'heading-order' },
+      { line: 5, column: 3, severity: 'warning', message: '<h4> skips from <h2>; heading levels should only increase by one', ruleId: 'heading-order' },
+    ]);
+    expect(result.score).toBe(94);
+  });
+
+  it('should check the contrast of declared color pairs in style blocks and attributes', async () => {
+    const html = `<main>
+<style>
+  /* muted text */
+  .muted { color: #aaa; background-color: white; }
+  @media (prefers-color-scheme: dark) {
+    .panel { color: hsl(0, 0%, 30%); background: var(--surface, #222); }
+  }
+  .ok { color: #000; background: #fff; }
+</style>
+<p style="color: rgb(120, 120, 120); background-color: #777">Low</p>
+</main>`;
+
+    const result = await handleAccessibility(html, {}, mockEnv);
+
+    expect(result.details.messages).toEqual([
+      {
+        line: 4,
+        column: 3,
+        severity: 'error',
+        message: '".muted" has a contrast ratio of 2.32:1 between #aaa and its background; expected at least 4.5:1',
+        ruleId: 'color-contrast',
+      },
+      {
+        line: 6,
+        column: 5,
+        severity: 'error',
+        message: '".panel" has a contrast ratio of 1.87:1 between hsl(0, 0%, 30%) and its background; expected at least 4.5:1',
+        ruleId: 'color-contrast',
+      },
+      {
+        line: 10,
+        column: 4,
+        severity: 'error',
+        message: 'Inline style has a contrast ratio of 1.01:1 between rgb(120, 120, 120) and its background; expected at least 4.5:1',
+        ruleId: 'color-contrast',
+      },
+    ]);
+  });
+
+  it('should honor configured severities and the contrast minimum', async () => {
+    const html = `<main><img src="a.png"><p style="color: #767676; background: #fff">Grey</p></main>`;
+
+    const result = await handleAccessibility(html, {
+      rules: {
+        'image-alt': 'warn',
+        'color-contrast': ['error', { minimum: 7 }],
+        'region': 'error',
+      },
+    }, mockEnv);
+
+    expect(result.details.messages.map((msg: any) => [msg.ruleId, msg.severity])).toEqual([
+      ['color-contrast', 'error'],
+      ['image-alt', 'warning'],
+    ]);
+    expect(result.details.unsupportedRules).toEqual(['region']);
+
+    const relaxed = await handleAccessibility(html, { rules: { 'image-alt': 'off' } }, mockEnv);
+    expect(relaxed.score).toBe(100);
+  });
+
+  it('should return a zero score for invalid rule severities', async () => {
+    const result = await handleAccessibility('<main></main>', { rules: { 'link-name': 'fatal' } }, mockEnv);
+
+    expect(result.score).toBe(0);
+    expect(result.error).toBe(`Invalid severity for rule 'link-name': "fatal"`);
+  });
+});
@@ -0,0 +1,33 @@
+import { resolveRules, scoreIssues } from '../lint/config.js';
+import { ACCESSIBILITY_RULES, auditAccessibility } from '../lint/accessibility.js';
+
+interface TestResult {
+  score: number;
+  details: Record<string, any>;
+  error?: string;
+}
+
+interface Env {
+  R2_BUCKET: R2Bucket;
+  AI: Ai;
+}
+
+export async function handleAccessibility(sourceCode: string, config: Record<string, any>, env: Env): Promise<TestResult> {
+  try {
+    const { rules, unsupportedRules } = resolveRules(ACCESSIBILITY_RULES, config.rules);
+    const issues = auditAccessibility(sourceCode, rules);
+
+    return scoreIssues(issues, unsupportedRules);
+  } catch (error) {
+    return {
+      score: 0,
+      details: {
+        errors: 0,
+        warnings: 0,
+        totalIssues: 0,
+        messages: [],
+      },
+      error: error instanceof Error ? error.message : 'Accessibility audit failed',
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { handleHtmlValidation } from './html-validation.js';
+
+const mockEnv = {
+  R2_BUCKET: {} as R2Bucket,
+  AI: {} as Ai,
+};
+
+const validPage = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Table</title>
+</head>
+<body>
+  <ul id="list">
+    <li>One
+    <li>Two
+  </ul>
+  <p>Paragraph without end tag
+  <svg viewBox="0 0 10 10"><circle cx="5" cy="5" r="4"/></svg>
+  <br>
+</body>
+</html>`;
+
+describe('handleHtmlValidation', () => {
+  it('should return a perfect score for a well-formed document', async () => {
+    const result = await handleHtmlValidation(validPage, {}, mockEnv);
+
+    expect(result.details.messages).toEqual([]);
+    expect(result.score).toBe(100);
+  });
+
+  it('should report missing document-level declarations as warnings and errors', async () => {
+    const result = await handleHtmlValidation('<html><head><title>x</title></head><body></body></html>', {}, mockEnv);
+
+    expect(result.details.messages.map((msg: any) => [msg.ruleId, msg.severity])).toEqual([
+      ['doctype', 'error'],
+      ['html-lang', 'warning'],
+      ['meta-charset', 'warning'],
+      ['meta-viewport', 'warning'],
+    ]);
+    expect(result.score).toBe(84);
+  });
+
+  it('should report unclosed, misnested and stray tags with positions', async () => {
+    const html = validPage.replace(
+      '  <br>\n',
+      '  <div><b><i>bold</b></i>\n  </span>\n  <section>\n'
+    );
+
+    const result = await handleHtmlValidation(html, {}, mockEnv);
+
+    expect(result.details.messages).toEqual([
+      { line: 15, column: 3, severity: 'error', message: '<div> is never closed', ruleId: 'unclosed-tag' },
+      { line: 15, column: 18, severity: 'error', message: '</b> closes <i> before its own end tag', ruleId: 'misnested-tag' },
+      { line: 16, column: 3, severity: 'error', message: '</span> has no matching open element', ruleId: 'stray-end-tag' },
+      { line: 17, column: 3, severity: 'error', message: '<section> is never closed', ruleId: 'unclosed-tag' },
+    ]);
+  });
+
+  it('should report duplicate ids, invalid attributes and obsolete markup, errors first', async () => {
+    const html = validPage.replace(
+      '  <br>\n',
+      '  <div id="list" class="a" class="b"></div>\n  <center><font color="red">Old</font></center>\n  <table bgcolor="#000" id=""></table>\n'
+    );
+
+    const result = await handleHtmlValidation(html, {}, mockEnv);
+
+    expect(result.details.messages.map((msg: any) => [msg.line, msg.ruleId, msg.message])).toEqual([
+      [15, 'duplicate-id', 'Duplicate id "list"'],
+      [15, 'invalid-attribute', 'Duplicate attribute "class" on <div>'],
+      [17, 'invalid-attribute', 'id must be non-empty and contain no whitespace'],
+      [16, 'obsolete-element', '<center> is obsolete'],
+      [16, 'obsolete-element', '<font> is obsolete'],
+      [17, 'obsolete-attribute', 'The bgcolor attribute on <table> is obsolete; use CSS instead'],
+    ]);
+  });
+
+  it('should parse elements named after object properties', async () => {
+    const page = validPage.replace('<br>', '<constructor><b>x</b></constructor>');
+    const result = await handleHtmlValidation(page, { rules: { toString: 'error' } }, mockEnv);
+
+    expect(result.error).toBeUndefined();
+    expect(result.details.messages).toEqual([]);
+    expect(result.details.unsupportedRules).toEqual(['toString']);
+  });
+
+  it('should honor rule severities from config', async () => {
+    const result = await handleHtmlValidation(
+      '<!DOCTYPE html><html><head></head><body><center></center></body></html>',
+      { rules: { 'html-lang': 'off', 'meta-charset': 'off', 'meta-viewport': 'off', 'obsolete-element': 'error', 'max-depth': 'warn' } },
+      mockEnv
+    );
+
+    expect(result.details.messages).toEqual([
+      expect.objectContaining({ ruleId: 'obsolete-element', severity: 'error' }),
+    ]);
+    expect(result.details.unsupportedRules).toEqual(['max-depth']);
+  });
+});
@@ -0,0 +1,33 @@
+import { resolveRules, scoreIssues } from '../lint/config.js';
+import { HTML_VALIDATION_RULES, validateHtml } from '../lint/html-rules.js';
+
+interface TestResult {
+  score: number;
+  details: Record<string, any>;
+  error?: string;
+}
+
+interface Env {
+  R2_BUCKET: R2Bucket;
+  AI: Ai;
+}
+
+export async function handleHtmlValidation(sourceCode: string, config: Record<string, any>, env: Env): Promise<TestResult> {
+  try {
+    const { rules, unsupportedRules } = resolveRules(HTML_VALIDATION_RULES, config.rules);
+    const issues = validateHtml(sourceCode, rules);
+
+    return scoreIssues(issues, unsupportedRules);
+  } catch (error) {
+    return {
+      score: 0,
+      details: {
+        errors: 0,
+        warnings: 0,
+        totalIssues: 0,
+        messages: [],
+      },
+      error: error instanceof Error ? error.message : 'HTML validation failed',
+    };
+  }
+}
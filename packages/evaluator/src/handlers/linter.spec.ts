@@ -188,6 +188,104 @@ describe('handleLinter', () => {
     expect(message.severity).toMatch(/^(error|warning)$/);
   });
 
+  it('should skip rules that are turned off', async () => {
+    const sourceCode = `
+      export function add(a, b) {
+        const unused = 'variable';
+        return a + b
+      }
+    `;
+
+    const config = {
+      rules: {
+        'semi': 'off',
+        'no-unused-vars': 0,
+      },
+    };
+
+    const result = await handleLinter(sourceCode, config, mockEnv);
+
+    expect(result.score).toBe(100);
+    expect(result.details.totalIssues).toBe(0);
+  });
+
+  it('should use the configured severity for each rule', async () => {
+    const sourceCode = `
+      export function add(a, b) {
+        const unused = 'variable';
+        return a + b
+      }
+    `;
+
+    const result = await handleLinter(sourceCode, { rules: { 'semi': 'warn', 'no-unused-vars': ['error'] } }, mockEnv);
+
+    expect(result.details.messages).toEqual([
+      expect.objectContaining({ ruleId: 'no-unused-vars', severity: 'error' }),
+      expect.objectContaining({ ruleId: 'semi', severity: 'warning' }),
+    ]);
+    expect(result.score).toBe(88);
+  });
+
+  it('should honor rule options such as semi "never"', async () => {
+    const sourceCode = `
+      export function add(a, b) {
+        return a + b;
+      }
+    `;
+
+    const result = await handleLinter(sourceCode, { rules: { 'semi': ['error', 'never'] } }, mockEnv);
+
+    expect(result.details.errors).toBe(1);
+    expect(result.details.messages[0]).toMatchObject({ ruleId: 'semi', message: 'Extra semicolon', line: 3 });
+  });
+
+  it('should treat import and export as syntax errors in scripts', async () => {
+    const sourceCode = `export const answer = 42;`;
+
+    const asModule = await handleLinter(sourceCode, {}, mockEnv);
+    const asScript = await handleLinter(sourceCode, { parserOptions: { sourceType: 'script' } }, mockEnv);
+
+    expect(asModule.details.errors).toBe(0);
+    expect(asScript.details.messages).toEqual([expect.objectContaining({ ruleId: 'syntax-error' })]);
+  });
+
+  it('should list rules it does not support and reject invalid severities', async () => {
+    const sourceCode = `export const answer = 42;`;
+
+    const unsupported = await handleLinter(sourceCode, { rules: { 'max-len': 'warn' } }, mockEnv);
+    expect(unsupported.details.unsupportedRules).toEqual(['max-len']);
+
+    const invalid = await handleLinter(sourceCode, { rules: { 'semi': 'fatal' } }, mockEnv);
+    expect(invalid.score).toBe(0);
+    expect(invalid.error).toBe(`Invalid severity for rule 'semi': "fatal"`);
+
+    const inherited = await handleLinter(sourceCode, { rules: { 'semi': 'toString' } }, mockEnv);
+    expect(inherited.score).toBe(0);
+    expect(inherited.error).toBe(`Invalid severity for rule 'semi': "toString"`);
+  });
+
+  it('should resolve no-undef globals from env and globals', async () => {
+    const sourceCode = `document.title = appName;`;
+    const rules = { 'no-undef': 'error' };
+
+    const bare = await handleLinter(sourceCode, { rules }, mockEnv);
+    expect(bare.details.messages.map((msg: any) => msg.message)).toEqual([
+      "'document' is not defined",
+      "'appName' is not defined",
+    ]);
+
+    const configured = await handleLinter(sourceCode, { rules, env: { browser: true }, globals: { appName: 'readonly' } }, mockEnv);
+    expect(configured.score).toBe(100);
+  });
+
+  it('should ignore unknown environments, including inherited property names', async () => {
+    const sourceCode = `export const answer = 42;`;
+    const result = await handleLinter(sourceCode, { rules: { 'no-undef': 'error' }, env: { constructor: true, amd: true } }, mockEnv);
+
+    expect(result.error).toBeUndefined();
+    expect(result.score).toBe(100);
+  });
+
   it('should handle empty source code', async () => {
     const sourceCode = '';
     const config = {};
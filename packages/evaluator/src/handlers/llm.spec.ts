@@ -176,6 +176,27 @@ describe('handleLLMEvaluation', () => {
     expect(callArgs.messages[0].content).toContain('Rate this code for security vulnerabilities');
   });
 
+  it('should record the token usage reported by the model', async () => {
+    mockAI.run.mockResolvedValue({ response: '{"score": 70}', usage: { prompt_tokens: 300, completion_tokens: 40 } });
+
+    const result = await handleLLMEvaluation('const x = 1;', {}, mockEnv);
+
+    expect(result.details.usage).toEqual({ prompt_tokens: 300, completion_tokens: 40 });
+    expect(result.usage).toEqual({ model: '@cf/meta/llama-3-8b-instruct', prompt_tokens: 300, completion_tokens: 40 });
+  });
+
+  it('should evaluate offline with the fake provider', async () => {
+    const result = await handleLLMEvaluation('const x = 1;', {}, { ...mockEnv, LLM_PROVIDER: 'fake' });
+
+    expect(mockAI.run).not.toHaveBeenCalled();
+    expect(result.error).toBeUndefined();
+    expect(result.details.parseError).toBeUndefined();
+    expect(result.details.reasoning).toMatch(/^Fake verdict [0-9a-f]{8}$/);
+    expect(result.score).toBeGreaterThanOrEqual(0);
+    expect(result.score).toBeLessThanOrEqual(100);
+    expect(result.details.usage.prompt_tokens).toBeGreaterThan(0);
+  });
+
   it('should handle AI service errors gracefully', async () => {
     mockAI.run.mockRejectedValue(new Error('AI service unavailable'));
     
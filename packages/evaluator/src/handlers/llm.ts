@@ -1,10 +1,13 @@
+import { LlmProviderEnv, ModelUsage, createLlmProvider } from '@sral/shared';
+
 interface TestResult {
   score: number;
   details: Record<string, any>;
   error?: string;
+  usage?: ModelUsage; // Tokens spent on the judge call, for cost accounting.
 }
 
-interface Env {
+interface Env extends LlmProviderEnv {
   R2_BUCKET: R2Bucket;
   AI: Ai;
 }
@@ -14,7 +17,8 @@ export async function handleLLMEvaluation(sourceCode: string, config: Record<str
     const prompt = config.prompt || 'Evaluate this code for quality, readability, and best practices. Provide a score from 0-100.';
     const model = config.model || '@cf/meta/llama-3-8b-instruct';
 
-    const response = await env.AI.run(model, {
+    const completion = await createLlmProvider(env).complete({
+      model,
       messages: [
         {
           role: 'system',
@@ -37,15 +41,12 @@ Only return valid JSON. Do not include any other text.`
       ],
     });
 
-    // Extract text from response
-    let responseText: string;
-    if (typeof response === 'string') {
-      responseText = response;
-    } else if (response && typeof response === 'object' && 'response' in response) {
-      responseText = response.response as string;
-    } else {
-      throw new Error('Unexpected response format from AI model');
+    if (!completion.ok) {
+      throw new Error(completion.error.message);
     }
+    const responseText = completion.value.text;
+    const usage = completion.value.usage;
+    const modelUsage: ModelUsage = { model: completion.value.model, ...usage };
 
     // Try to parse JSON response
     let parsedResponse;
@@ -68,7 +69,9 @@ Only return valid JSON. Do not include any other text.`
           reasoning: responseText,
           parseError: 'Failed to parse JSON response',
           rawResponse: responseText,
+          usage,
         },
+        usage: modelUsage,
       };
     }
 
@@ -84,7 +87,9 @@ Only return valid JSON. Do not include any other text.`
         strengths: parsedResponse.strengths || [],
         improvements: parsedResponse.improvements || [],
         rawResponse: responseText,
+        usage,
       },
+      usage: modelUsage,
     };
 
   } catch (error) {
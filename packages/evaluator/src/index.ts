@@ -1,99 +1,64 @@
-import { EvaluationRequest, EvaluationResponse, Scorecard, ScorecardTest } from '@sral/shared';
-import { handleLinter } from './handlers/linter.js';
-import { handleLLMEvaluation } from './handlers/llm.js';
+import {
+  checkScorecard,
+  createValidationErrorResponse,
+  parseRequestBody,
+  validateAnalyzeRequest,
+  validateEvaluationRequest,
+} from '@sral/shared';
+import { handleAnalysis } from './analyze.js';
+import { evaluateArtifact } from './evaluate.js';
 
 interface Env {
   R2_BUCKET: R2Bucket;
   AI: Ai;
+  ORCHESTRATOR: DurableObjectNamespace;
 }
 
-interface TestResult {
-  score: number;
-  details: Record<string, any>;
-  error?: string;
-}
-
-type TestHandler = (sourceCode: string, config: Record<string, any>, env: Env) => Promise<TestResult>;
-
-const testHandlers = new Map<string, TestHandler>([
-  ['linter', handleLinter],
-  ['llm_evaluation', handleLLMEvaluation],
-]);
-
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     try {
       if (request.method !== 'POST') {
         return new Response('Method not allowed', { status: 405 });
       }
+      const { pathname } = new URL(request.url);
 
-      const { artifact_path, scorecard }: EvaluationRequest = await request.json();
-
-      // Fetch artifact from R2
-      const r2Object = await env.R2_BUCKET.get(artifact_path);
-      if (r2Object === null) {
-        return new Response(
-          JSON.stringify({ error: `Artifact not found: ${artifact_path}` }),
-          { status: 404, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const sourceCode = await r2Object.text();
-
-      // Execute all tests in parallel
-      const testPromises = scorecard.tests.map(async (test: ScorecardTest) => {
-        const handler = testHandlers.get(test.type);
-        if (!handler) {
-          return {
-            type: test.type,
-            weight: test.weight,
-            result: {
-              score: 0,
-              details: {},
-              error: `Unknown test type: ${test.type}`
-            }
-          };
+      // Dry run: statically check a scorecard without evaluating anything
+      if (pathname === '/scorecard/validate') {
+        const scorecard = await parseRequestBody(request, checkScorecard);
+        if (!scorecard.valid) {
+          return createValidationErrorResponse(scorecard.errors, 'Invalid scorecard');
         }
+        return new Response(JSON.stringify({ valid: true, scorecard: scorecard.value }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-        try {
-          const result = await handler(sourceCode, test.config, env);
-          return {
-            type: test.type,
-            weight: test.weight,
-            result
-          };
-        } catch (error) {
-          return {
-            type: test.type,
-            weight: test.weight,
-            result: {
-              score: 0,
-              details: {},
-              error: error instanceof Error ? error.message : 'Unknown error'
-            }
-          };
+      // Batch analysis: evaluate a whole wave in the background and call back the orchestrator
+      if (pathname === '/analyze') {
+        const body = await parseRequestBody(request, validateAnalyzeRequest);
+        if (!body.valid) {
+          return createValidationErrorResponse(body.errors);
         }
-      });
 
-      const testResults = await Promise.all(testPromises);
+        ctx.waitUntil(handleAnalysis(body.value, env));
 
-      // Calculate weighted quality score
-      let totalWeightedScore = 0;
-      let totalWeight = 0;
-      const details: Record<string, any> = {};
-
-      for (const { type, weight, result } of testResults) {
-        totalWeightedScore += result.score * weight;
-        totalWeight += weight;
-        details[type] = result;
+        return new Response(null, { status: 202 });
       }
 
-      const quality_score = totalWeight > 0 ? totalWeightedScore / totalWeight : 0;
+      const body = await parseRequestBody(request, validateEvaluationRequest);
+      if (!body.valid) {
+        return createValidationErrorResponse(body.errors);
+      }
+      const { artifact_path, scorecard } = body.value;
 
-      const response: EvaluationResponse = {
-        quality_score,
-        details
-      };
+      const response = await evaluateArtifact(artifact_path, scorecard, env);
+      if (response === null) {
+        return new Response(
+          JSON.stringify({ error: `Artifact not found: ${artifact_path}` }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
 
       return new Response(JSON.stringify(response), {
         status: 200,
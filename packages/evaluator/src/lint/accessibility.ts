@@ -0,0 +1,252 @@
+import { LintIssue, ResolvedRule } from './types.js';
+import { RuleSetting } from './config.js';
+import { createPositionLookup } from './position.js';
+import { HtmlDocument, HtmlElement, getAttribute, parseHtml, walkElements } from './html.js';
+import { CssDeclarationBlock, RgbaColor, contrastRatio, parseColor, parseDeclarations, parseStylesheet } from './css.js';
+
+interface AccessibilityRuleContext {
+  document: HtmlDocument;
+  options: unknown[];
+  report(offset: number, message: string): void;
+}
+
+type AccessibilityRule = (context: AccessibilityRuleContext) => void;
+
+// Default severities for the accessibility checks.
+export const ACCESSIBILITY_RULES: Record<string, RuleSetting> = {
+  'image-alt': 'error',
+  'input-label': 'error',
+  'button-name': 'error',
+  'link-name': 'error',
+  'color-contrast': 'error',
+  'landmark-main': 'warn',
+  'heading-order': 'warn',
+};
+
+// WCAG AA minimum for normal-sized text.
+const DEFAULT_MINIMUM_CONTRAST = 4.5;
+
+// Inputs that are either invisible or named by their own value.
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'reset', 'button', 'image']);
+
+function isHidden(element: HtmlElement): boolean {
+  for (let current: HtmlElement | null = element; current; current = current.parent) {
+    if (getAttribute(current, 'aria-hidden') === 'true' || current.attributes.some((attribute) => attribute.name === 'hidden')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function hasAriaName(element: HtmlElement): boolean {
+  return Boolean(getAttribute(element, 'aria-label')?.trim() || getAttribute(element, 'aria-labelledby')?.trim());
+}
+
+// Text a screen reader would announce for the element's content.
+function contentName(element: HtmlElement): string {
+  let name = '';
+  for (const child of element.children) {
+    if (child.type === 'text') {
+      name += child.value;
+    } else if (child.name === 'img' || (child.name === 'input' && getAttribute(child, 'type') === 'image')) {
+      name += getAttribute(child, 'alt') ?? '';
+    } else if (getAttribute(child, 'aria-hidden') !== 'true') {
+      name += getAttribute(child, 'aria-label') ?? contentName(child);
+    }
+  }
+  return name.replace(/&nbsp;|&#160;/g, ' ').trim();
+}
+
+function hasAccessibleName(element: HtmlElement): boolean {
+  return hasAriaName(element) || Boolean(getAttribute(element, 'title')?.trim()) || contentName(element) !== '';
+}
+
+function role(element: HtmlElement): string | null {
+  return getAttribute(element, 'role')?.trim().toLowerCase() ?? null;
+}
+
+interface StyleBlock extends CssDeclarationBlock {
+  documentOffset: number;
+}
+
+// Every `<style>` rule and inline `style` attribute, with document offsets.
+function collectStyleBlocks(document: HtmlDocument): StyleBlock[] {
+  const blocks: StyleBlock[] = [];
+  walkElements(document.root, (element) => {
+    if (element.name === 'style') {
+      for (const child of element.children) {
+        if (child.type !== 'text') continue;
+        for (const block of parseStylesheet(child.value)) {
+          blocks.push({ ...block, documentOffset: child.start + block.offset });
+        }
+      }
+    }
+
+    const style = element.attributes.find((attribute) => attribute.name === 'style');
+    if (style?.value) {
+      blocks.push({ selector: '', declarations: parseDeclarations(style.value), offset: 0, documentOffset: style.start });
+    }
+  });
+  return blocks;
+}
+
+// Substitutes `var(--name, fallback)` with custom properties declared anywhere on the page.
+function resolveVariables(value: string, properties: Map<string, string>, depth = 0): string {
+  if (depth > 10) return value;
+  const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/g, (match, name: string, fallback?: string) =>
+    properties.get(name) ?? fallback?.trim() ?? match
+  );
+  return resolved === value ? value : resolveVariables(resolved, properties, depth + 1);
+}
+
+// The solid color of a `background-color`, or of a `background` shorthand without images.
+function backgroundColor(declarations: Map<string, string>, properties: Map<string, string>): RgbaColor | null {
+  const explicit = declarations.get('background-color');
+  if (explicit) return parseColor(resolveVariables(explicit, properties));
+
+  const shorthand = declarations.get('background');
+  if (!shorthand) return null;
+  const value = resolveVariables(shorthand, properties);
+  if (/gradient\(|url\(|image-set\(/i.test(value)) return null;
+  for (const token of value.match(/(?:rgba?|hsla?)\([^)]*\)|[^\s()]+/g) ?? []) {
+    const color = parseColor(token);
+    if (color) return color;
+  }
+  return null;
+}
+
+function formatColor(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+const RULES: Record<string, AccessibilityRule> = {
+  'image-alt': ({ document, report }) => {
+    walkElements(document.root, (element) => {
+      const isImage = element.name === 'img' || element.name === 'area' || (element.name === 'input' && getAttribute(element, 'type') === 'image');
+      if (!isImage || isHidden(element) || hasAriaName(element)) return;
+      const presentational = role(element) === 'presentation' || role(element) === 'none';
+      if (getAttribute(element, 'alt') === null && !presentational) {
+        report(element.start, `<${element.name}> is missing alt text`);
+      }
+    });
+  },
+
+  'input-label': ({ document, report }) => {
+    const labelled = new Set<string>();
+    walkElements(document.root, (element) => {
+      const target = element.name === 'label' ? getAttribute(element, 'for') : null;
+      if (target) labelled.add(target);
+    });
+
+    walkElements(document.root, (element) => {
+      if (!['input', 'select', 'textarea'].includes(element.name) || isHidden(element)) return;
+      const type = getAttribute(element, 'type')?.toLowerCase() ?? 'text';
+      if (element.name === 'input' && UNLABELLED_INPUT_TYPES.has(type)) return;
+
+      const id = getAttribute(element, 'id');
+      let wrapped = false;
+      for (let parent = element.parent; parent && !wrapped; parent = parent.parent) {
+        wrapped = parent.name === 'label';
+      }
+      if (wrapped || (id && labelled.has(id)) || hasAriaName(element) || getAttribute(element, 'title')?.trim()) return;
+
+      const described = element.name === 'input' ? `<input type="${type}">` : `<${element.name}>`;
+      report(element.start, `${described} has no associated label`);
+    });
+  },
+
+  'button-name': ({ document, report }) => {
+    walkElements(document.root, (element) => {
+      if ((element.name !== 'button' && role(element) !== 'button') || isHidden(element)) return;
+      if (!hasAccessibleName(element)) {
+        report(element.start, 'Button has no accessible name');
+      }
+    });
+  },
+
+  'link-name': ({ document, report }) => {
+    walkElements(document.root, (element) => {
+      if (element.name !== 'a' || getAttribute(element, 'href') === null || isHidden(element)) return;
+      if (!hasAccessibleName(element)) {
+        report(element.start, 'Link has no accessible name');
+      }
+    });
+  },
+
+  'color-contrast': ({ document, options, report }) => {
+    const configured = (options[0] as { minimum?: unknown } | undefined)?.minimum;
+    const minimum = typeof configured === 'number' ? configured : DEFAULT_MINIMUM_CONTRAST;
+
+    const blocks = collectStyleBlocks(document);
+    const properties = new Map<string, string>();
+    for (const { declarations } of blocks) {
+      for (const [property, value] of declarations) {
+        if (property.startsWith('--')) properties.set(property, value);
+      }
+    }
+
+    for (const { selector, declarations, documentOffset } of blocks) {
+      const color = declarations.get('color');
+      if (!color) continue;
+      const foreground = parseColor(resolveVariables(color, properties));
+      const background = backgroundColor(declarations, properties);
+      // Translucent colors depend on what is painted underneath, which a static check cannot know.
+      if (!foreground || !background || foreground.a < 1 || background.a < 1) continue;
+
+      const ratio = contrastRatio(foreground, background);
+      if (ratio < minimum) {
+        const target = selector ? `"${formatColor(selector)}"` : 'Inline style';
+        report(documentOffset, `${target} has a contrast ratio of ${ratio.toFixed(2)}:1 between ${formatColor(color)} and its background; expected at least ${minimum}:1`);
+      }
+    }
+  },
+
+  'landmark-main': ({ document, report }) => {
+    let found = false;
+    let body = null as HtmlElement | null;
+    walkElements(document.root, (element) => {
+      if (element.name === 'main' || role(element) === 'main') found = true;
+      if (element.name === 'body') body ??= element;
+    });
+    if (!found) {
+      report(body?.start ?? 0, 'Document has no <main> landmark');
+    }
+  },
+
+  'heading-order': ({ document, report }) => {
+    let previous = 0;
+    walkElements(document.root, (element) => {
+      const match = element.name.match(/^h([1-6])$/);
+      if (!match || isHidden(element)) return;
+      const level = Number(match[1]);
+      if (previous && level > previous + 1) {
+        report(element.start, `<h${level}> skips from <h${previous}>; heading levels should only increase by one`);
+      }
+      previous = level;
+    });
+  },
+};
+
+/**
+ * Audits an HTML document for common accessibility problems with the enabled
+ * rules. Issues use the linter's `LintIssue` shape with 1-based positions.
+ */
+export function auditAccessibility(html: string, rules: Map<string, ResolvedRule>): LintIssue[] {
+  const document = parseHtml(html);
+  const { positionAt } = createPositionLookup(html);
+  const issues: LintIssue[] = [];
+
+  for (const [ruleId, { severity, options }] of rules) {
+    const rule = RULES[ruleId];
+    if (!rule || severity === 'off') continue;
+
+    rule({
+      document,
+      options,
+      report: (offset, message) =>
+        issues.push({ ...positionAt(offset), severity: severity === 'warn' ? 'warning' : 'error', message, ruleId }),
+    });
+  }
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,70 @@
+import { LintIssue, ResolvedRule, Severity } from './types.js';
+
+// ESLint-style rule setting: a severity, or a severity followed by rule options.
+export type RuleSetting = Severity | 0 | 1 | 2 | [Severity | 0 | 1 | 2, ...unknown[]];
+
+const SEVERITIES: ReadonlyMap<string, Severity> = new Map([
+  ['off', 'off'],
+  ['warn', 'warn'],
+  ['error', 'error'],
+  ['0', 'off'],
+  ['1', 'warn'],
+  ['2', 'error'],
+]);
+
+function resolveRule(ruleId: string, setting: unknown): ResolvedRule {
+  const [level, ...options] = Array.isArray(setting) ? setting : [setting];
+  const severity = SEVERITIES.get(String(level));
+  if (!severity) {
+    throw new Error(`Invalid severity for rule '${ruleId}': ${JSON.stringify(level)}`);
+  }
+  return { severity, options };
+}
+
+/**
+ * Applies a test's `config.rules` on top of its default rule settings. Rules
+ * missing from the defaults are not supported and are listed instead of run.
+ */
+export function resolveRules(
+  defaults: Record<string, RuleSetting>,
+  configured: Record<string, unknown> = {}
+): { rules: Map<string, ResolvedRule>; unsupportedRules: string[] } {
+  const rules = new Map<string, ResolvedRule>();
+  for (const [ruleId, setting] of Object.entries(defaults)) {
+    rules.set(ruleId, resolveRule(ruleId, setting));
+  }
+
+  const unsupportedRules: string[] = [];
+  for (const [ruleId, setting] of Object.entries(configured)) {
+    if (!Object.hasOwn(defaults, ruleId)) {
+      unsupportedRules.push(ruleId);
+      continue;
+    }
+    rules.set(ruleId, resolveRule(ruleId, setting));
+  }
+
+  return { rules, unsupportedRules };
+}
+
+/**
+ * Scores a list of issues out of 100. Errors are weighted more heavily than
+ * warnings, and the score never drops below 0.
+ */
+export function scoreIssues(issues: LintIssue[], unsupportedRules: string[] = []): { score: number; details: Record<string, any> } {
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+  const errorPenalty = errors.length * 10;
+  const warningPenalty = warnings.length * 2;
+
+  return {
+    score: Math.max(0, 100 - errorPenalty - warningPenalty),
+    details: {
+      errors: errors.length,
+      warnings: warnings.length,
+      totalIssues: errors.length + warnings.length,
+      messages: [...errors, ...warnings],
+      ...(unsupportedRules.length > 0 && { unsupportedRules }),
+    },
+  };
+}
@@ -0,0 +1,121 @@
+export interface CssDeclarationBlock {
+  selector: string; // Empty for inline `style` attributes.
+  declarations: Map<string, string>; // Property names are lowercased; later declarations win.
+  offset: number; // Where the block starts in the text it was parsed from.
+}
+
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/** Parses the body of a declaration block, e.g. an inline `style` attribute. */
+export function parseDeclarations(text: string): Map<string, string> {
+  const declarations = new Map<string, string>();
+  for (const declaration of text.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).replace(/!important\s*$/i, '').trim();
+    if (property && value) declarations.set(property, value);
+  }
+  return declarations;
+}
+
+/**
+ * Extracts the innermost `selector { ... }` blocks of a stylesheet, so rules
+ * nested in at-rules such as `@media` are included. Comments are blanked out
+ * first to keep offsets intact.
+ */
+export function parseStylesheet(css: string): CssDeclarationBlock[] {
+  const text = css.replace(/\/\*[\s\S]*?\*\//g, (comment) => ' '.repeat(comment.length));
+  const blocks: CssDeclarationBlock[] = [];
+
+  for (const match of text.matchAll(/([^{}]*)\{([^{}]*)\}/g)) {
+    const selector = match[1].trim();
+    if (!selector || selector.startsWith('@')) continue;
+    blocks.push({
+      selector,
+      declarations: parseDeclarations(match[2]),
+      offset: match.index! + match[1].length - match[1].trimStart().length,
+    });
+  }
+
+  return blocks;
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff', yellow: '#ffff00',
+  orange: '#ffa500', purple: '#800080', gray: '#808080', grey: '#808080', silver: '#c0c0c0', maroon: '#800000',
+  navy: '#000080', teal: '#008080', olive: '#808000', lime: '#00ff00', aqua: '#00ffff', cyan: '#00ffff',
+  fuchsia: '#ff00ff', magenta: '#ff00ff', darkgray: '#a9a9a9', darkgrey: '#a9a9a9', lightgray: '#d3d3d3',
+  lightgrey: '#d3d3d3', darkblue: '#00008b', darkred: '#8b0000', darkgreen: '#006400', pink: '#ffc0cb',
+  brown: '#a52a2a', gold: '#ffd700', whitesmoke: '#f5f5f5', dimgray: '#696969', dimgrey: '#696969',
+};
+
+function hueToRgb(p: number, q: number, t: number): number {
+  const h = (t + 1) % 1;
+  if (h < 1 / 6) return p + (q - p) * 6 * h;
+  if (h < 1 / 2) return q;
+  if (h < 2 / 3) return p + (q - p) * (2 / 3 - h) * 6;
+  return p;
+}
+
+function channel(value: string, max: number): number {
+  return value.endsWith('%') ? (parseFloat(value) / 100) * max : parseFloat(value);
+}
+
+/**
+ * Parses a CSS color value in hex, rgb(), hsl() or named form. Returns null
+ * for anything else, including `transparent`, `currentColor` and `var()`.
+ */
+export function parseColor(value: string): RgbaColor | null {
+  const color = value.trim().toLowerCase();
+
+  const hex = NAMED_COLORS[color] ?? color;
+  if (/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) {
+    const digits = hex.length <= 5 ? [...hex.slice(1)].map((digit) => digit + digit).join('') : hex.slice(1);
+    const [r, g, b, a = 255] = digits.match(/../g)!.map((pair) => parseInt(pair, 16));
+    return { r, g, b, a: a / 255 };
+  }
+
+  const functional = color.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (!functional) return null;
+  const parts = functional[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3 || parts.length > 4) return null;
+  const alpha = parts[3] === undefined ? 1 : channel(parts[3], 1);
+
+  if (functional[1].startsWith('rgb')) {
+    const [r, g, b] = parts.slice(0, 3).map((part) => channel(part, 255));
+    return [r, g, b, alpha].some(Number.isNaN) ? null : { r, g, b, a: alpha };
+  }
+
+  const h = parseFloat(parts[0]) / 360;
+  const s = channel(parts[1], 1);
+  const l = channel(parts[2], 1);
+  if ([h, s, l, alpha].some(Number.isNaN)) return null;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return {
+    r: hueToRgb(p, q, h + 1 / 3) * 255,
+    g: hueToRgb(p, q, h) * 255,
+    b: hueToRgb(p, q, h - 1 / 3) * 255,
+    a: alpha,
+  };
+}
+
+function relativeLuminance({ r, g, b }: RgbaColor): number {
+  const [red, green, blue] = [r, g, b].map((value) => {
+    const srgb = value / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+/** WCAG 2 contrast ratio between two opaque colors, from 1 to 21. */
+export function contrastRatio(foreground: RgbaColor, background: RgbaColor): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
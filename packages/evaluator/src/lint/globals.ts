@@ -0,0 +1,69 @@
+// Identifiers every ECMAScript environment provides.
+const BUILTIN = [
+  'AggregateError', 'Array', 'ArrayBuffer', 'Atomics', 'BigInt', 'BigInt64Array', 'BigUint64Array', 'Boolean',
+  'DataView', 'Date', 'decodeURI', 'decodeURIComponent', 'encodeURI', 'encodeURIComponent', 'Error', 'escape',
+  'eval', 'EvalError', 'FinalizationRegistry', 'Float32Array', 'Float64Array', 'Function', 'globalThis',
+  'Infinity', 'Int16Array', 'Int32Array', 'Int8Array', 'Intl', 'isFinite', 'isNaN', 'JSON', 'Map', 'Math', 'NaN',
+  'Number', 'Object', 'parseFloat', 'parseInt', 'Promise', 'Proxy', 'RangeError', 'ReferenceError', 'Reflect',
+  'RegExp', 'Set', 'SharedArrayBuffer', 'String', 'Symbol', 'SyntaxError', 'TypeError', 'Uint16Array',
+  'Uint32Array', 'Uint8Array', 'Uint8ClampedArray', 'undefined', 'unescape', 'URIError', 'WeakMap', 'WeakRef',
+  'WeakSet',
+];
+
+// Globals shared by browsers and web workers.
+const WEB = [
+  'AbortController', 'AbortSignal', 'atob', 'Blob', 'btoa', 'BroadcastChannel', 'caches', 'clearInterval',
+  'clearTimeout', 'console', 'crypto', 'CustomEvent', 'Event', 'EventTarget', 'fetch', 'File', 'FileReader',
+  'FormData', 'Headers', 'indexedDB', 'location', 'navigator', 'performance', 'queueMicrotask', 'Request',
+  'Response', 'self', 'setInterval', 'setTimeout', 'structuredClone', 'TextDecoder', 'TextEncoder', 'URL',
+  'URLSearchParams', 'WebSocket', 'Worker', 'XMLHttpRequest',
+];
+
+const BROWSER = [
+  ...WEB,
+  'alert', 'cancelAnimationFrame', 'confirm', 'customElements', 'CSS', 'devicePixelRatio', 'document',
+  'DocumentFragment', 'DOMParser', 'Element', 'getComputedStyle', 'history', 'HTMLElement', 'Image',
+  'innerHeight', 'innerWidth', 'IntersectionObserver', 'KeyboardEvent', 'localStorage', 'matchMedia',
+  'MouseEvent', 'MutationObserver', 'Node', 'NodeList', 'open', 'prompt', 'requestAnimationFrame',
+  'ResizeObserver', 'screen', 'scrollTo', 'scrollX', 'scrollY', 'sessionStorage', 'window',
+];
+
+const WORKER = [...WEB, 'close', 'importScripts', 'onmessage', 'postMessage'];
+
+const NODE = [
+  'Buffer', 'clearImmediate', 'console', 'exports', 'global', 'module', 'process', 'require', 'setImmediate',
+  '__dirname', '__filename', ...WEB.filter((name) => name !== 'self'),
+];
+
+const ENVIRONMENTS: ReadonlyMap<string, string[]> = new Map([
+  ['browser', BROWSER],
+  ['worker', WORKER],
+  ['serviceworker', [...WORKER, 'clients', 'registration', 'skipWaiting']],
+  ['node', NODE],
+  ['commonjs', ['exports', 'module', 'require']],
+]);
+
+/**
+ * Resolves ESLint-style `env` and `globals` config into the set of names
+ * `no-undef` treats as defined. `es*` environments need no extra names since
+ * the ECMAScript builtins are always available.
+ */
+export function resolveGlobals(env: Record<string, unknown> = {}, globals: Record<string, unknown> = {}): Set<string> {
+  const names = new Set(BUILTIN);
+
+  for (const [name, enabled] of Object.entries(env)) {
+    if (enabled) {
+      ENVIRONMENTS.get(name)?.forEach((global) => names.add(global));
+    }
+  }
+
+  for (const [name, setting] of Object.entries(globals)) {
+    if (setting === 'off') {
+      names.delete(name);
+    } else {
+      names.add(name);
+    }
+  }
+
+  return names;
+}
@@ -0,0 +1,195 @@
+import { LintIssue, ResolvedRule } from './types.js';
+import { RuleSetting } from './config.js';
+import { createPositionLookup } from './position.js';
+import { HtmlDocument, HtmlElement, getAttribute, hasAttribute, parseHtml, walkElements } from './html.js';
+
+interface HtmlRuleContext {
+  document: HtmlDocument;
+  report(offset: number, message: string): void;
+}
+
+type HtmlRule = (context: HtmlRuleContext) => void;
+
+// Default severities for the html_validation checks.
+export const HTML_VALIDATION_RULES: Record<string, RuleSetting> = {
+  'doctype': 'error',
+  'unclosed-tag': 'error',
+  'misnested-tag': 'error',
+  'stray-end-tag': 'error',
+  'duplicate-id': 'error',
+  'invalid-attribute': 'error',
+  'html-lang': 'warn',
+  'meta-charset': 'warn',
+  'meta-viewport': 'warn',
+  'obsolete-element': 'warn',
+  'obsolete-attribute': 'warn',
+};
+
+const OBSOLETE_ELEMENTS = new Set([
+  'acronym', 'applet', 'basefont', 'big', 'blink', 'center', 'dir', 'font', 'frame', 'frameset', 'isindex',
+  'listing', 'marquee', 'nobr', 'noframes', 'plaintext', 'spacer', 'strike', 'tt', 'xmp',
+]);
+
+// Presentational attributes replaced by CSS.
+const OBSOLETE_ATTRIBUTES = new Set([
+  'align', 'background', 'bgcolor', 'cellpadding', 'cellspacing', 'clear', 'frameborder', 'hspace', 'link',
+  'marginheight', 'marginwidth', 'nowrap', 'scrolling', 'text', 'valign', 'vlink', 'vspace',
+]);
+
+function findElement(document: HtmlDocument, name: string): HtmlElement | null {
+  let found: HtmlElement | null = null;
+  walkElements(document.root, (element) => {
+    if (!found && element.name === name) found = element;
+  });
+  return found;
+}
+
+function hasMeta(document: HtmlDocument, matches: (meta: HtmlElement) => boolean): boolean {
+  let found = false;
+  walkElements(document.root, (element) => {
+    if (element.name === 'meta' && matches(element)) found = true;
+  });
+  return found;
+}
+
+// Where to report something the document is missing: its <head>, <html>, or the top.
+function missingOffset(document: HtmlDocument, ...candidates: string[]): number {
+  for (const name of candidates) {
+    const element = findElement(document, name);
+    if (element) return element.start;
+  }
+  return 0;
+}
+
+const RULES: Record<string, HtmlRule> = {
+  'doctype': ({ document, report }) => {
+    const { doctype } = document;
+    if (!doctype) {
+      report(0, 'Missing <!DOCTYPE html> declaration');
+    } else if (!/^doctype\s+html\s*$/i.test(doctype.value)) {
+      report(doctype.start, 'Doctype should be <!DOCTYPE html>');
+    } else if (document.doctypeAfterContent) {
+      report(doctype.start, 'Doctype must come before any elements');
+    }
+  },
+
+  'unclosed-tag': ({ document, report }) => {
+    for (const error of document.errors) {
+      if (error.kind === 'unclosed') {
+        report(error.element.start, `<${error.element.name}> is never closed`);
+      } else if (error.kind === 'unterminated') {
+        report(error.element.start, `<${error.element.name}> start tag is missing its closing '>'`);
+      }
+    }
+  },
+
+  'misnested-tag': ({ document, report }) => {
+    for (const error of document.errors) {
+      if (error.kind === 'misnested') {
+        report(error.offset, `</${error.name}> closes <${error.element.name}> before its own end tag`);
+      }
+    }
+  },
+
+  'stray-end-tag': ({ document, report }) => {
+    for (const error of document.errors) {
+      if (error.kind === 'stray-end-tag') {
+        report(error.offset, `</${error.name}> has no matching open element`);
+      }
+    }
+  },
+
+  'duplicate-id': ({ document, report }) => {
+    const seen = new Set<string>();
+    walkElements(document.root, (element) => {
+      const id = getAttribute(element, 'id');
+      if (!id) return;
+      if (seen.has(id)) {
+        report(element.start, `Duplicate id "${id}"`);
+      }
+      seen.add(id);
+    });
+  },
+
+  'invalid-attribute': ({ document, report }) => {
+    walkElements(document.root, (element) => {
+      const names = new Set<string>();
+      for (const attribute of element.attributes) {
+        if (names.has(attribute.name)) {
+          report(attribute.start, `Duplicate attribute "${attribute.name}" on <${element.name}>`);
+        }
+        names.add(attribute.name);
+
+        if (attribute.name === 'id' && (attribute.value === null || attribute.value === '' || /\s/.test(attribute.value))) {
+          report(attribute.start, 'id must be non-empty and contain no whitespace');
+        }
+        if (!/^[^\s"'>/=\u0000-\u001f]+$/.test(attribute.name)) {
+          report(attribute.start, `"${attribute.name}" is not a valid attribute name`);
+        }
+      }
+    });
+  },
+
+  'html-lang': ({ document, report }) => {
+    const html = findElement(document, 'html');
+    if (!html?.attributes.some((attribute) => attribute.name === 'lang' && attribute.value?.trim())) {
+      report(html?.start ?? 0, '<html> is missing a lang attribute');
+    }
+  },
+
+  'meta-charset': ({ document, report }) => {
+    const declared = hasMeta(document, (meta) =>
+      hasAttribute(meta, 'charset') || getAttribute(meta, 'http-equiv')?.toLowerCase() === 'content-type'
+    );
+    if (!declared) {
+      report(missingOffset(document, 'head', 'html'), 'Missing <meta charset> declaration');
+    }
+  },
+
+  'meta-viewport': ({ document, report }) => {
+    if (!hasMeta(document, (meta) => getAttribute(meta, 'name')?.toLowerCase() === 'viewport')) {
+      report(missingOffset(document, 'head', 'html'), 'Missing <meta name="viewport"> declaration');
+    }
+  },
+
+  'obsolete-element': ({ document, report }) => {
+    walkElements(document.root, (element) => {
+      if (OBSOLETE_ELEMENTS.has(element.name)) {
+        report(element.start, `<${element.name}> is obsolete`);
+      }
+    });
+  },
+
+  'obsolete-attribute': ({ document, report }) => {
+    walkElements(document.root, (element) => {
+      for (const attribute of element.attributes) {
+        if (OBSOLETE_ATTRIBUTES.has(attribute.name)) {
+          report(attribute.start, `The ${attribute.name} attribute on <${element.name}> is obsolete; use CSS instead`);
+        }
+      }
+    });
+  },
+};
+
+/**
+ * Checks the structure of an HTML document with the enabled rules. Issues use
+ * the linter's `LintIssue` shape with 1-based document positions.
+ */
+export function validateHtml(html: string, rules: Map<string, ResolvedRule>): LintIssue[] {
+  const document = parseHtml(html);
+  const { positionAt } = createPositionLookup(html);
+  const issues: LintIssue[] = [];
+
+  for (const [ruleId, { severity }] of rules) {
+    const rule = RULES[ruleId];
+    if (!rule || severity === 'off') continue;
+
+    rule({
+      document,
+      report: (offset, message) =>
+        issues.push({ ...positionAt(offset), severity: severity === 'warn' ? 'warning' : 'error', message, ruleId }),
+    });
+  }
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
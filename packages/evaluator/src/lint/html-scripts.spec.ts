@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { extractScripts, lintHtmlScripts, looksLikeHtml } from './html-scripts.js';
+import { resolveGlobals } from './globals.js';
+
+const options = (rules: Record<string, 'warn' | 'error'>) => ({
+  rules: new Map(Object.entries(rules).map(([ruleId, severity]) => [ruleId, { severity, options: [] }])),
+  sourceType: 'module' as const,
+  ecmaVersion: 'latest' as const,
+  globals: resolveGlobals({ browser: true }),
+});
+
+const page = [
+  '<!DOCTYPE html>',
+  '<html lang="en">',
+  '<head>',
+  '  <script type="application/json">{ "not": "javascript" }</script>',
+  '  <script src="https://cdn.example.com/lib.js"></script>',
+  '  <script>',
+  '    function toggle(id) { document.getElementById(id).hidden ^= true; }',
+  '    var unused = 1',
+  '  </script>',
+  '  <script type="module">import { x } from "./x.js"; console.log(x, toggle);</script>',
+  '</head>',
+  '<body>',
+  '  <button onclick="toggle(&quot;menu&quot;); missing(event)">Menu</button>',
+  '</body>',
+  '</html>',
+].join('\n');
+
+describe('looksLikeHtml', () => {
+  it('detects documents that start with markup', () => {
+    expect(looksLikeHtml('\n  <!DOCTYPE html><html></html>')).toBe(true);
+    expect(looksLikeHtml('<unclosed-tag>')).toBe(true);
+    expect(looksLikeHtml('export const a = 1 < 2;')).toBe(false);
+  });
+});
+
+describe('extractScripts', () => {
+  it('returns inline classic and module scripts and on* handlers', () => {
+    const scripts = extractScripts(page);
+
+    expect(scripts.map(({ kind, sourceType }) => [kind, sourceType])).toEqual([
+      ['script', 'script'],
+      ['script', 'module'],
+      ['handler', 'script'],
+    ]);
+    expect(scripts[2].code).toBe('toggle("menu"); missing(event)');
+  });
+
+  it('leaves references to unknown entities as written', () => {
+    const [handler] = extractScripts('<button onclick="say(\'&constructor;&amp;\')">Hi</button>');
+
+    expect(handler.code).toBe("say('&constructor;&')");
+  });
+});
+
+describe('lintHtmlScripts', () => {
+  it('lints each script with positions mapped to the document', () => {
+    const issues = lintHtmlScripts(page, options({ 'semi': 'error', 'no-unused-vars': 'warn', 'no-undef': 'error' }));
+
+    expect(issues.map(({ line, column, ruleId }) => [line, column, ruleId])).toEqual([
+      [8, 9, 'no-unused-vars'],
+      [8, 19, 'semi'],
+      [13, 46, 'no-undef'],
+    ]);
+    expect(issues[2].message).toBe("'missing' is not defined");
+  });
+
+  it('keeps handler positions past unknown entities in line with the document', () => {
+    const issues = lintHtmlScripts('<button onclick="alert(\'&constructor;\'); missing()">Hi</button>', options({ 'no-undef': 'error' }));
+
+    expect(issues.map(({ line, column, message }) => [line, column, message])).toEqual([[1, 42, "'missing' is not defined"]]);
+  });
+
+  it('reports a syntax error in one script without hiding issues in the others', () => {
+    const html = '<script>let a = ;</script>\n<script>\nvar b = 1\n</script>';
+    const issues = lintHtmlScripts(html, options({ semi: 'error' }));
+
+    expect(issues).toEqual([
+      { line: 1, column: 17, severity: 'error', message: 'Parsing error: Unexpected token', ruleId: 'syntax-error' },
+      { line: 3, column: 10, severity: 'error', message: 'Missing semicolon', ruleId: 'semi' },
+    ]);
+  });
+
+  it('returns no issues for markup without scripts', () => {
+    expect(lintHtmlScripts('<!DOCTYPE html><html><body><p>Clean</p></body></html>', options({ semi: 'error' }))).toEqual([]);
+  });
+});
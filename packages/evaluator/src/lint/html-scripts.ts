@@ -0,0 +1,119 @@
+import { LintIssue } from './types.js';
+import { JavaScriptLintOptions, collectGlobalNames, lintJavaScript } from './javascript.js';
+import { createPositionLookup } from './position.js';
+import { HtmlAttribute, decodeHtmlEntities, tokenizeHtml } from './html.js';
+
+export interface EmbeddedScript {
+  kind: 'script' | 'handler';
+  code: string;
+  sourceType: 'module' | 'script';
+  toDocumentOffset(offset: number): number;
+}
+
+// `type` values that mark a classic script; anything else besides "module" is data.
+const CLASSIC_SCRIPT_TYPES = new Set([
+  '', 'text/javascript', 'application/javascript', 'text/ecmascript', 'application/ecmascript',
+  'application/x-javascript', 'text/x-javascript', 'text/jscript',
+]);
+
+// Rules that only make sense for whole scripts, not single-expression handler attributes.
+const SCRIPT_ONLY_RULES = new Set(['semi']);
+
+function attribute(attributes: HtmlAttribute[], name: string): HtmlAttribute | undefined {
+  return attributes.find((candidate) => candidate.name === name);
+}
+
+/**
+ * Looks for markup at the start of the artifact. JavaScript cannot begin with
+ * `<`, so this tells self-contained HTML artifacts apart from plain scripts.
+ */
+export function looksLikeHtml(sourceCode: string): boolean {
+  return /^\uFEFF?\s*</.test(sourceCode);
+}
+
+/**
+ * Finds the inline `<script>` blocks and `on*` handler attributes in an HTML
+ * document. External scripts and non-JavaScript script types are skipped.
+ */
+export function extractScripts(html: string): EmbeddedScript[] {
+  const scripts: EmbeddedScript[] = [];
+  const tokens = tokenizeHtml(html);
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'startTag') return;
+
+    for (const handler of token.attributes) {
+      if (!handler.name.startsWith('on') || handler.value === null || handler.value.trim() === '') continue;
+      const { text, offsets } = decodeHtmlEntities(handler.value);
+      scripts.push({
+        kind: 'handler',
+        code: text,
+        sourceType: 'script',
+        toDocumentOffset: (offset) => handler.valueStart + offsets[Math.min(offset, offsets.length - 1)],
+      });
+    }
+
+    if (token.name !== 'script' || token.selfClosing || attribute(token.attributes, 'src')) return;
+    const type = (attribute(token.attributes, 'type')?.value ?? '').trim().toLowerCase();
+    if (type !== 'module' && !CLASSIC_SCRIPT_TYPES.has(type)) return;
+
+    const content = tokens[index + 1];
+    if (content?.type !== 'text' || content.value.trim() === '') return;
+    scripts.push({
+      kind: 'script',
+      code: content.value,
+      sourceType: type === 'module' ? 'module' : 'script',
+      toDocumentOffset: (offset) => content.start + offset,
+    });
+  });
+
+  return scripts;
+}
+
+/**
+ * Lints every script and inline handler in an HTML document with positions
+ * mapped back to the document. Classic scripts and handlers share the page's
+ * global scope, so names one of them declares are defined for the others and
+ * count as used when another one references them.
+ */
+export function lintHtmlScripts(html: string, options: JavaScriptLintOptions): LintIssue[] {
+  const scripts = extractScripts(html);
+
+  const snippetOptions = (script: EmbeddedScript): JavaScriptLintOptions => ({
+    ...options,
+    sourceType: script.sourceType,
+    allowReturnOutsideFunction: script.kind === 'handler',
+  });
+
+  const pageGlobals = new Set(options.globals);
+  const usedGlobals = new Set<string>();
+  for (const script of scripts) {
+    const names = collectGlobalNames(script.code, snippetOptions(script));
+    names?.declared.forEach((name) => pageGlobals.add(name));
+    names?.referenced.forEach((name) => usedGlobals.add(name));
+  }
+  const handlerGlobals = new Set([...pageGlobals, 'event']);
+
+  const { positionAt } = createPositionLookup(html);
+  const issues: LintIssue[] = [];
+
+  for (const script of scripts) {
+    const rules = script.kind === 'handler'
+      ? new Map([...options.rules].filter(([ruleId]) => !SCRIPT_ONLY_RULES.has(ruleId)))
+      : options.rules;
+    const snippet = createPositionLookup(script.code);
+
+    const scriptIssues = lintJavaScript(script.code, {
+      ...snippetOptions(script),
+      rules,
+      globals: script.kind === 'handler' ? handlerGlobals : pageGlobals,
+      usedGlobals,
+    });
+    for (const issue of scriptIssues) {
+      const offset = script.toDocumentOffset(snippet.offsetAt(issue));
+      issues.push({ ...issue, ...positionAt(offset) });
+    }
+  }
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
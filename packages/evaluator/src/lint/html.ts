@@ -0,0 +1,340 @@
+export interface HtmlAttribute {
+  name: string; // Lowercased.
+  value: string | null; // Raw value with entities left encoded; null when the attribute has no value.
+  start: number;
+  valueStart: number; // Offset of the first character of the raw value, or -1 without a value.
+  end: number;
+}
+
+export type HtmlToken =
+  | { type: 'doctype'; value: string; start: number; end: number }
+  | { type: 'startTag'; name: string; attributes: HtmlAttribute[]; selfClosing: boolean; unterminated: boolean; start: number; end: number }
+  | { type: 'endTag'; name: string; start: number; end: number }
+  | { type: 'text'; value: string; start: number; end: number }
+  | { type: 'comment'; start: number; end: number };
+
+// Elements whose content is not parsed as markup.
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+const TAG_NAME = /[A-Za-z][^\s/>]*/y;
+const ATTRIBUTE_NAME = /[^\s"'>/=]+/y;
+const UNQUOTED_VALUE = /[^\s>]*/y;
+const WHITESPACE = /\s*/y;
+
+function matchAt(pattern: RegExp, html: string, index: number): string | null {
+  pattern.lastIndex = index;
+  return pattern.exec(html)?.[0] ?? null;
+}
+
+function skipWhitespace(html: string, index: number): number {
+  return index + matchAt(WHITESPACE, html, index)!.length;
+}
+
+function readStartTag(html: string, start: number): Extract<HtmlToken, { type: 'startTag' }> {
+  const name = matchAt(TAG_NAME, html, start + 1)!;
+  const attributes: HtmlAttribute[] = [];
+  let index = start + 1 + name.length;
+
+  while (index < html.length) {
+    index = skipWhitespace(html, index);
+    if (html[index] === '>') {
+      return { type: 'startTag', name: name.toLowerCase(), attributes, selfClosing: false, unterminated: false, start, end: index + 1 };
+    }
+    if (html.startsWith('/>', index)) {
+      return { type: 'startTag', name: name.toLowerCase(), attributes, selfClosing: true, unterminated: false, start, end: index + 2 };
+    }
+    if (html[index] === '/') {
+      index++;
+      continue;
+    }
+
+    const attributeName = matchAt(ATTRIBUTE_NAME, html, index) ?? html[index];
+    const attribute: HtmlAttribute = { name: attributeName.toLowerCase(), value: null, start: index, valueStart: -1, end: index + attributeName.length };
+    index = attribute.end;
+
+    const afterName = skipWhitespace(html, index);
+    if (html[afterName] === '=') {
+      const valueStart = skipWhitespace(html, afterName + 1);
+      const quote = html[valueStart];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, valueStart + 1);
+        const valueEnd = close === -1 ? html.length : close;
+        attribute.valueStart = valueStart + 1;
+        attribute.value = html.slice(valueStart + 1, valueEnd);
+        attribute.end = Math.min(valueEnd + 1, html.length);
+      } else {
+        const value = matchAt(UNQUOTED_VALUE, html, valueStart)!;
+        attribute.valueStart = valueStart;
+        attribute.value = value;
+        attribute.end = valueStart + value.length;
+      }
+      index = attribute.end;
+    }
+    attributes.push(attribute);
+  }
+
+  return { type: 'startTag', name: name.toLowerCase(), attributes, selfClosing: false, unterminated: true, start, end: html.length };
+}
+
+/**
+ * Splits an HTML document into tokens with source offsets. This is a
+ * forgiving tokenizer, not a spec-compliant parser: it never throws, and the
+ * contents of script, style, textarea and title elements come back as a
+ * single text token.
+ */
+export function tokenizeHtml(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  let index = 0;
+
+  while (index < html.length) {
+    if (html.startsWith('<!--', index)) {
+      const close = html.indexOf('-->', index + 4);
+      const end = close === -1 ? html.length : close + 3;
+      tokens.push({ type: 'comment', start: index, end });
+      index = end;
+    } else if (html.startsWith('<!', index) || html.startsWith('<?', index)) {
+      const close = html.indexOf('>', index);
+      const end = close === -1 ? html.length : close + 1;
+      const value = html.slice(index + 2, close === -1 ? end : close);
+      tokens.push(/^doctype/i.test(value) ? { type: 'doctype', value, start: index, end } : { type: 'comment', start: index, end });
+      index = end;
+    } else if (html.startsWith('</', index) && matchAt(TAG_NAME, html, index + 2)) {
+      const name = matchAt(TAG_NAME, html, index + 2)!;
+      const close = html.indexOf('>', index);
+      const end = close === -1 ? html.length : close + 1;
+      tokens.push({ type: 'endTag', name: name.toLowerCase(), start: index, end });
+      index = end;
+    } else if (html[index] === '<' && matchAt(TAG_NAME, html, index + 1)) {
+      const tag = readStartTag(html, index);
+      tokens.push(tag);
+      index = tag.end;
+
+      if (RAW_TEXT_ELEMENTS.has(tag.name) && !tag.selfClosing) {
+        const close = html.toLowerCase().indexOf(`</${tag.name}`, index);
+        const end = close === -1 ? html.length : close;
+        if (end > index) {
+          tokens.push({ type: 'text', value: html.slice(index, end), start: index, end });
+        }
+        index = end;
+      }
+    } else {
+      const next = html.indexOf('<', index + 1);
+      const end = next === -1 ? html.length : next;
+      tokens.push({ type: 'text', value: html.slice(index, end), start: index, end });
+      index = end;
+    }
+  }
+
+  return tokens;
+}
+
+const NAMED_ENTITIES: ReadonlyMap<string, string> = new Map([
+  ['amp', '&'],
+  ['lt', '<'],
+  ['gt', '>'],
+  ['quot', '"'],
+  ['apos', "'"],
+  ['nbsp', '\u00a0'],
+]);
+const ENTITY = /&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([A-Za-z]+));/g;
+
+/**
+ * Decodes character references in an attribute value. `offsets[i]` is the
+ * index in `raw` of decoded character `i`, so positions in the decoded text
+ * can be mapped back to the document.
+ */
+export function decodeHtmlEntities(raw: string): { text: string; offsets: number[] } {
+  let text = '';
+  const offsets: number[] = [];
+  let index = 0;
+
+  const copy = (until: number) => {
+    for (; index < until; index++) {
+      text += raw[index];
+      offsets.push(index);
+    }
+  };
+
+  for (const match of raw.matchAll(ENTITY)) {
+    const [entity, decimal, hex, name] = match;
+    const codePoint = decimal || hex ? parseInt(decimal ?? hex, decimal ? 10 : 16) : -1;
+    const decoded = codePoint === -1 ? NAMED_ENTITIES.get(name.toLowerCase()) : codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : undefined;
+    if (decoded === undefined) continue;
+    copy(match.index!);
+    text += decoded;
+    offsets.push(...Array.from({ length: decoded.length }, () => match.index!));
+    index = match.index! + entity.length;
+  }
+  copy(raw.length);
+  offsets.push(raw.length);
+
+  return { text, offsets };
+}
+
+export interface HtmlElement {
+  type: 'element';
+  name: string;
+  attributes: HtmlAttribute[];
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+  start: number; // Offset of the start tag.
+  end: number; // Offset just past the start tag.
+}
+
+export interface HtmlText {
+  type: 'text';
+  value: string;
+  start: number;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+export type HtmlStructureError =
+  | { kind: 'unclosed'; element: HtmlElement }
+  | { kind: 'unterminated'; element: HtmlElement } // Start tag cut off before its `>`.
+  | { kind: 'misnested'; element: HtmlElement; name: string; offset: number } // `</name>` closed over `element`.
+  | { kind: 'stray-end-tag'; name: string; offset: number };
+
+export interface HtmlDocument {
+  root: HtmlElement; // Synthetic `#document` element holding the top-level nodes.
+  doctype: Extract<HtmlToken, { type: 'doctype' }> | null;
+  doctypeAfterContent: boolean;
+  errors: HtmlStructureError[];
+}
+
+export const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements whose end tag may be omitted, mapped to the start tags that close them implicitly.
+const IMPLIED_END = new Map<string, Set<string>>([
+  ['head', new Set(['body'])],
+  ['li', new Set(['li'])],
+  ['dt', new Set(['dt', 'dd'])],
+  ['dd', new Set(['dt', 'dd'])],
+  ['option', new Set(['option', 'optgroup'])],
+  ['optgroup', new Set(['optgroup'])],
+  ['tr', new Set(['tr', 'tbody', 'tfoot'])],
+  ['td', new Set(['td', 'th', 'tr', 'tbody', 'tfoot'])],
+  ['th', new Set(['td', 'th', 'tr', 'tbody', 'tfoot'])],
+  ['thead', new Set(['tbody', 'tfoot'])],
+  ['tbody', new Set(['tbody', 'tfoot'])],
+  ['p', new Set([
+    'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+    'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'menu', 'nav', 'ol', 'p', 'pre',
+    'section', 'table', 'ul',
+  ])],
+]);
+
+// Elements that may be left open until their parent closes.
+const OPTIONAL_END = new Set([...IMPLIED_END.keys(), 'html', 'head', 'body', 'tfoot', 'colgroup', 'caption', 'rt', 'rp']);
+
+// Elements still open when one of these ends were left unclosed rather than misnested.
+const DOCUMENT_SECTIONS = new Set(['html', 'head', 'body']);
+
+// Inside these, `<tag/>` is a complete element as in XML.
+const FOREIGN_ELEMENTS = new Set(['svg', 'math']);
+
+/**
+ * Builds an element tree from an HTML document, recording structural errors
+ * instead of repairing them the way a browser would. Omitted optional end
+ * tags (`</li>`, `</p>`, ...) are not errors.
+ */
+export function parseHtml(html: string): HtmlDocument {
+  const root: HtmlElement = { type: 'element', name: '#document', attributes: [], children: [], parent: null, start: 0, end: 0 };
+  const document: HtmlDocument = { root, doctype: null, doctypeAfterContent: false, errors: [] };
+  const stack: HtmlElement[] = [root];
+  // Names of elements closed early by a misnested end tag; their own end tag is expected later.
+  const closedEarly: string[] = [];
+  const current = () => stack[stack.length - 1];
+  const inForeignContent = () => stack.some((element) => FOREIGN_ELEMENTS.has(element.name));
+
+  for (const token of tokenizeHtml(html)) {
+    switch (token.type) {
+      case 'doctype':
+        if (!document.doctype) {
+          document.doctype = token;
+          document.doctypeAfterContent = root.children.some((child) => child.type === 'element');
+        }
+        break;
+
+      case 'text':
+        current().children.push({ type: 'text', value: token.value, start: token.start });
+        break;
+
+      case 'startTag': {
+        while (IMPLIED_END.get(current().name)?.has(token.name)) {
+          stack.pop();
+        }
+
+        const element: HtmlElement = {
+          type: 'element',
+          name: token.name,
+          attributes: token.attributes,
+          children: [],
+          parent: current(),
+          start: token.start,
+          end: token.end,
+        };
+        current().children.push(element);
+
+        if (token.unterminated) {
+          document.errors.push({ kind: 'unterminated', element });
+        } else if (!VOID_ELEMENTS.has(token.name) && !(token.selfClosing && inForeignContent())) {
+          stack.push(element);
+        }
+        break;
+      }
+
+      case 'endTag': {
+        const index = stack.map((element) => element.name).lastIndexOf(token.name);
+        if (index <= 0) {
+          const early = closedEarly.indexOf(token.name);
+          if (early === -1) {
+            document.errors.push({ kind: 'stray-end-tag', name: token.name, offset: token.start });
+          } else {
+            closedEarly.splice(early, 1);
+          }
+          break;
+        }
+        for (const element of stack.slice(index + 1)) {
+          if (OPTIONAL_END.has(element.name)) continue;
+          if (DOCUMENT_SECTIONS.has(token.name)) {
+            document.errors.push({ kind: 'unclosed', element });
+          } else {
+            document.errors.push({ kind: 'misnested', element, name: token.name, offset: token.start });
+            closedEarly.push(element.name);
+          }
+        }
+        stack.length = index;
+        break;
+      }
+    }
+  }
+
+  for (const element of stack.slice(1)) {
+    if (!OPTIONAL_END.has(element.name)) {
+      document.errors.push({ kind: 'unclosed', element });
+    }
+  }
+
+  return document;
+}
+
+export function getAttribute(element: HtmlElement, name: string): string | null {
+  return element.attributes.find((attribute) => attribute.name === name)?.value ?? null;
+}
+
+export function hasAttribute(element: HtmlElement, name: string): boolean {
+  return element.attributes.some((attribute) => attribute.name === name);
+}
+
+/** Visits every element below `root` in document order. */
+export function walkElements(root: HtmlElement, visit: (element: HtmlElement) => void): void {
+  for (const child of root.children) {
+    if (child.type === 'element') {
+      visit(child);
+      walkElements(child, visit);
+    }
+  }
+}
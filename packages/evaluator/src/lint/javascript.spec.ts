@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { JavaScriptLintOptions, lintJavaScript } from './javascript.js';
+import { resolveGlobals } from './globals.js';
+
+const lint = (sourceCode: string, rules: Record<string, unknown[] | 'warn' | 'error'>, overrides: Partial<JavaScriptLintOptions> = {}) =>
+  lintJavaScript(sourceCode, {
+    rules: new Map(
+      Object.entries(rules).map(([ruleId, setting]) => {
+        const [severity, ...options] = Array.isArray(setting) ? setting : [setting];
+        return [ruleId, { severity: severity as 'warn' | 'error', options }];
+      })
+    ),
+    sourceType: 'module',
+    ecmaVersion: 'latest',
+    globals: resolveGlobals(),
+    ...overrides,
+  });
+
+describe('lintJavaScript', () => {
+  it('reports parse failures with their position', () => {
+    expect(lint('const a = 1;\nconst = 2;', { semi: 'error' })).toEqual([
+      { line: 2, column: 7, severity: 'error', message: 'Parsing error: Unexpected token', ruleId: 'syntax-error' },
+    ]);
+  });
+
+  describe('semi', () => {
+    it('reports statements that rely on automatic semicolon insertion', () => {
+      const issues = lint('const total = [1, 2]\n  .map((n) => n * 2)\n  .length\nlet s = "a;b"', { semi: 'error' });
+
+      expect(issues.map(({ line, column }) => [line, column])).toEqual([[3, 10], [4, 14]]);
+      expect(issues[0].message).toBe('Missing semicolon');
+    });
+
+    it('does not treat semicolons inside strings and templates as statement ends', () => {
+      expect(lint('const s = `a;\n${"b;"}`;\nconst t = \'{\';', { semi: 'error' })).toEqual([]);
+    });
+
+    it('reports explicit semicolons in "never" mode', () => {
+      const issues = lint('for (let i = 0; i < 1; i++) {}\nlet a = 1;', { semi: ['error', 'never'] });
+      expect(issues).toEqual([{ line: 2, column: 10, severity: 'error', message: 'Extra semicolon', ruleId: 'semi' }]);
+    });
+  });
+
+  describe('no-unused-vars', () => {
+    it('is scope-aware rather than matching names in the remaining text', () => {
+      const sourceCode = [
+        'const shadowed = 1;',
+        'function run(items) {',
+        '  const shadowed = items.length;',
+        '  return shadowed;',
+        '}',
+        'export const label = "shadowed";',
+      ].join('\n');
+
+      expect(lint(sourceCode, { 'no-unused-vars': 'error' })).toEqual([
+        { line: 1, column: 7, severity: 'error', message: "'shadowed' is assigned a value but never used", ruleId: 'no-unused-vars' },
+        { line: 2, column: 10, severity: 'error', message: "'run' is defined but never used", ruleId: 'no-unused-vars' },
+      ]);
+    });
+
+    it('only reports parameters after the last used one', () => {
+      const issues = lint('export function f(a, b, c) { return b; }', { 'no-unused-vars': 'warn' });
+      expect(issues.map((issue) => issue.message)).toEqual(["'c' is defined but never used"]);
+    });
+
+    it('does not count writes as uses', () => {
+      const issues = lint('let count = 0;\ncount += 1;\ncount++;', { 'no-unused-vars': 'warn' });
+      expect(issues.map((issue) => issue.message)).toEqual(["'count' is assigned a value but never used"]);
+    });
+
+    it('supports ignore patterns and the vars option', () => {
+      const sourceCode = 'const _skip = 1;\nconst top = 2;\nexport function f(_a) { const inner = 1; }';
+      const issues = lint(sourceCode, { 'no-unused-vars': ['warn', { vars: 'local', varsIgnorePattern: '^_', argsIgnorePattern: '^_' }] });
+      expect(issues.map((issue) => issue.message)).toEqual(["'inner' is assigned a value but never used"]);
+    });
+  });
+
+  describe('no-undef', () => {
+    it('reports names no scope or global defines', () => {
+      const sourceCode = 'export function f() {\n  return helper(Math.max(1, 2), typeof maybe);\n}';
+      expect(lint(sourceCode, { 'no-undef': 'error' })).toEqual([
+        { line: 2, column: 10, severity: 'error', message: "'helper' is not defined", ruleId: 'no-undef' },
+      ]);
+    });
+
+    it('uses the env globals', () => {
+      const sourceCode = 'document.title = window.name;';
+      expect(lint(sourceCode, { 'no-undef': 'error' })).toHaveLength(2);
+      expect(lint(sourceCode, { 'no-undef': 'error' }, { globals: resolveGlobals({ browser: true }) })).toEqual([]);
+    });
+
+    it('resolves hoisted functions, block scopes and named function expressions', () => {
+      const sourceCode = [
+        'later();',
+        'function later() { return function self(n) { return n && self(n - 1); }; }',
+        '{ let block = 1; }',
+        'export default block;',
+      ].join('\n');
+
+      const issues = lint(sourceCode, { 'no-undef': 'error' });
+      expect(issues.map(({ line, message }) => [line, message])).toEqual([[4, "'block' is not defined"]]);
+    });
+  });
+
+  describe('no-redeclare', () => {
+    // Modules reject a var redeclaring a top-level function, so this runs as a script.
+    it('reports repeated var and function declarations in source order', () => {
+      const sourceCode = 'function a() {}\nvar a = 1;\nfunction f() { var b; if (a) { var b; } return b; }\nf();';
+      expect(lint(sourceCode, { 'no-redeclare': 'error' }, { sourceType: 'script' })).toEqual([
+        { line: 2, column: 5, severity: 'error', message: "'a' is already defined", ruleId: 'no-redeclare' },
+        { line: 3, column: 36, severity: 'error', message: "'b' is already defined", ruleId: 'no-redeclare' },
+      ]);
+    });
+  });
+
+  describe('eqeqeq', () => {
+    const sourceCode = 'export const checks = [a == b, a != null, typeof a == "string"];';
+
+    it('reports loose equality at the operator', () => {
+      expect(lint(sourceCode, { eqeqeq: 'error' }).map(({ column, message }) => [column, message])).toEqual([
+        [26, "Expected '===' and instead saw '=='"],
+        [34, "Expected '!==' and instead saw '!='"],
+        [52, "Expected '===' and instead saw '=='"],
+      ]);
+    });
+
+    it('allows null and typeof comparisons in "smart" mode', () => {
+      expect(lint(sourceCode, { eqeqeq: ['error', 'smart'] })).toHaveLength(1);
+      expect(lint(sourceCode, { eqeqeq: ['error', 'always', { null: 'ignore' }] })).toHaveLength(2);
+    });
+  });
+
+  describe('no-console', () => {
+    it('ignores locally declared console variables', () => {
+      const sourceCode = 'console.log(1);\nexport function f(console) { console.log(2); }';
+      expect(lint(sourceCode, { 'no-console': 'warn' })).toEqual([
+        { line: 1, column: 1, severity: 'warning', message: 'Unexpected console statement', ruleId: 'no-console' },
+      ]);
+    });
+  });
+});
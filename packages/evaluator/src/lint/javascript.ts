@@ -0,0 +1,224 @@
+import { ecmaVersion, parse } from 'acorn';
+import { LintIssue, ResolvedRule } from './types.js';
+import { createPositionLookup } from './position.js';
+import { EstreeNode, Reference, ScopeAnalysis, analyzeScopes, forEachChild } from './scope.js';
+
+export interface JavaScriptLintOptions {
+  rules: Map<string, ResolvedRule>;
+  sourceType: 'module' | 'script';
+  ecmaVersion: ecmaVersion;
+  globals: Set<string>; // Names no-undef treats as defined.
+  usedGlobals?: Set<string>; // Top-level names referenced by other scripts on the same page.
+  allowReturnOutsideFunction?: boolean; // For inline event handler bodies.
+}
+
+export interface GlobalNames {
+  declared: string[]; // Names a classic script adds to the global scope.
+  referenced: string[]; // Names the script uses without declaring them.
+}
+
+interface RuleContext {
+  program: EstreeNode;
+  sourceCode: string;
+  scopes: ScopeAnalysis;
+  references: Map<EstreeNode, Reference>;
+  insertedSemicolons: number[]; // Offsets where automatic semicolon insertion applied.
+  globals: Set<string>;
+  usedGlobals: Set<string>;
+  report(offset: number, message: string): void;
+}
+
+type Rule = (context: RuleContext, options: unknown[]) => void;
+
+// Statements that ESLint's semi rule expects to end with a semicolon.
+const SEMI_STATEMENTS = new Set([
+  'VariableDeclaration', 'ExpressionStatement', 'ReturnStatement', 'ThrowStatement', 'BreakStatement',
+  'ContinueStatement', 'DoWhileStatement', 'DebuggerStatement', 'ImportDeclaration', 'ExportAllDeclaration',
+  'ExportNamedDeclaration', 'ExportDefaultDeclaration', 'PropertyDefinition',
+]);
+
+function walk(node: EstreeNode, visit: (node: EstreeNode, parent: EstreeNode | null) => void, parent: EstreeNode | null = null): void {
+  visit(node, parent);
+  forEachChild(node, (child) => walk(child, visit, node));
+}
+
+function isNullLiteral(node: EstreeNode): boolean {
+  return node.type === 'Literal' && node.value === null && !node.regex;
+}
+
+function ruleOptions(options: unknown[]): Record<string, any> {
+  const [first] = options;
+  return typeof first === 'object' && first !== null ? (first as Record<string, any>) : {};
+}
+
+export const JAVASCRIPT_RULES: Record<string, Rule> = {
+  'semi': (context, [mode = 'always']) => {
+    if (mode !== 'never') {
+      context.insertedSemicolons.forEach((offset) => context.report(offset, 'Missing semicolon'));
+      return;
+    }
+    walk(context.program, (node, parent) => {
+      const isForHead = parent !== null && node.type === 'VariableDeclaration' && parent.type.startsWith('For');
+      if (SEMI_STATEMENTS.has(node.type) && !isForHead && context.sourceCode[node.end - 1] === ';') {
+        context.report(node.end - 1, 'Extra semicolon');
+      }
+    });
+  },
+
+  'no-unused-vars': (context, options) => {
+    const config = typeof options[0] === 'string' ? { vars: options[0] } : ruleOptions(options);
+    const { vars = 'all', args = 'after-used', caughtErrors = 'all' } = config;
+    const varsIgnorePattern = config.varsIgnorePattern ? new RegExp(config.varsIgnorePattern) : null;
+    const argsIgnorePattern = config.argsIgnorePattern ? new RegExp(config.argsIgnorePattern) : null;
+
+    for (const scope of context.scopes.scopes) {
+      for (const variable of scope.variables.values()) {
+        if (variable.kind === 'implicit' || variable.exported || variable.reads > 0) continue;
+        if (scope.type === 'global' && context.usedGlobals.has(variable.name)) continue;
+
+        if (variable.kind === 'param') {
+          if (args === 'none' || argsIgnorePattern?.test(variable.name)) continue;
+          const laterParams = scope.params.slice(scope.params.indexOf(variable) + 1);
+          if (args === 'after-used' && laterParams.some((param) => param.reads > 0)) continue;
+        } else if (variable.kind === 'catch') {
+          if (caughtErrors === 'none') continue;
+        } else {
+          const topLevel = scope.type === 'global' || scope.type === 'module';
+          if ((vars === 'local' && topLevel) || varsIgnorePattern?.test(variable.name)) continue;
+        }
+
+        const assigned = variable.writes > 0 && ['var', 'let', 'const'].includes(variable.kind);
+        context.report(
+          variable.identifier.start,
+          `'${variable.name}' is ${assigned ? 'assigned a value' : 'defined'} but never used`
+        );
+      }
+    }
+  },
+
+  'no-undef': (context, options) => {
+    const { typeof: checkTypeof = false } = ruleOptions(options);
+    for (const reference of context.references.values()) {
+      const { name } = reference.identifier;
+      if (reference.variable || context.globals.has(name) || (reference.typeofOperand && !checkTypeof)) continue;
+      context.report(reference.identifier.start, `'${name}' is not defined`);
+    }
+  },
+
+  'no-redeclare': (context) => {
+    for (const scope of context.scopes.scopes) {
+      for (const variable of scope.variables.values()) {
+        if (variable.kind === 'implicit' || variable.redeclarations.length === 0) continue;
+        // Hoisting may declare a later `var` first, so report in source order.
+        const declarations = [variable.identifier, ...variable.redeclarations].sort((a, b) => a.start - b.start);
+        declarations.slice(1).forEach((identifier) => context.report(identifier.start, `'${variable.name}' is already defined`));
+      }
+    }
+  },
+
+  'eqeqeq': (context, options) => {
+    const mode = options[0] === 'smart' ? 'smart' : 'always';
+    const ignoreNull = mode === 'always' && ruleOptions(options.slice(1)).null === 'ignore';
+
+    walk(context.program, (node) => {
+      if (node.type !== 'BinaryExpression' || (node.operator !== '==' && node.operator !== '!=')) return;
+
+      const { left, right, operator } = node;
+      const hasNull = isNullLiteral(left) || isNullLiteral(right);
+      if (ignoreNull && hasNull) return;
+      if (mode === 'smart') {
+        const isTypeof = (side: EstreeNode) => side.type === 'UnaryExpression' && side.operator === 'typeof';
+        if (hasNull || isTypeof(left) || isTypeof(right) || (left.type === 'Literal' && right.type === 'Literal')) return;
+      }
+
+      context.report(context.sourceCode.indexOf(operator, left.end), `Expected '${operator}=' and instead saw '${operator}'`);
+    });
+  },
+
+  'no-console': (context) => {
+    walk(context.program, (node) => {
+      if (node.type !== 'MemberExpression' || node.object.type !== 'Identifier' || node.object.name !== 'console') return;
+      // A local variable named `console` is not the global console.
+      if (context.references.get(node.object)?.variable) return;
+      context.report(node.start, 'Unexpected console statement');
+    });
+  },
+};
+
+function parseJavaScript(sourceCode: string, options: JavaScriptLintOptions, onInsertedSemicolon?: (offset: number) => void): EstreeNode {
+  return parse(sourceCode, {
+    ecmaVersion: options.ecmaVersion,
+    sourceType: options.sourceType,
+    allowHashBang: true,
+    allowReturnOutsideFunction: options.allowReturnOutsideFunction,
+    onInsertedSemicolon,
+  }) as unknown as EstreeNode;
+}
+
+/**
+ * Lists the global names a script declares and references, so scripts that
+ * share a page can see each other's globals. Returns null when the script
+ * does not parse.
+ */
+export function collectGlobalNames(sourceCode: string, options: JavaScriptLintOptions): GlobalNames | null {
+  let program: EstreeNode;
+  try {
+    program = parseJavaScript(sourceCode, options);
+  } catch (error) {
+    if (error instanceof SyntaxError) return null;
+    throw error;
+  }
+
+  const { scopes, references } = analyzeScopes(program, options.sourceType);
+  return {
+    declared: options.sourceType === 'script' ? [...scopes[0].variables.keys()] : [],
+    referenced: references.filter((reference) => !reference.variable).map((reference) => reference.identifier.name),
+  };
+}
+
+/**
+ * Parses JavaScript with acorn and runs the enabled rules over the AST and its
+ * scope analysis. Lines and columns are 1-based. A parse failure is reported
+ * as a single `syntax-error` issue and no rules run.
+ */
+export function lintJavaScript(sourceCode: string, options: JavaScriptLintOptions): LintIssue[] {
+  const { positionAt } = createPositionLookup(sourceCode);
+  const insertedSemicolons: number[] = [];
+
+  let program: EstreeNode;
+  try {
+    program = parseJavaScript(sourceCode, options, (offset) => insertedSemicolons.push(offset));
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    const offset = (error as SyntaxError & { pos?: number }).pos ?? 0;
+    return [{
+      ...positionAt(offset),
+      severity: 'error',
+      message: `Parsing error: ${error.message.replace(/ \(\d+:\d+\)$/, '')}`,
+      ruleId: 'syntax-error',
+    }];
+  }
+
+  const scopes = analyzeScopes(program, options.sourceType);
+  const references = new Map(scopes.references.map((reference) => [reference.identifier, reference]));
+  const issues: LintIssue[] = [];
+
+  for (const [ruleId, { severity, options: ruleOptions }] of options.rules) {
+    const rule = JAVASCRIPT_RULES[ruleId];
+    if (!rule || severity === 'off') continue;
+
+    rule({
+      program,
+      sourceCode,
+      scopes,
+      references,
+      insertedSemicolons,
+      globals: options.globals,
+      usedGlobals: options.usedGlobals ?? new Set(),
+      report: (offset, message) =>
+        issues.push({ ...positionAt(offset), severity: severity === 'warn' ? 'warning' : 'error', message, ruleId }),
+    }, ruleOptions);
+  }
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,37 @@
+export interface Position {
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface PositionLookup {
+  positionAt(offset: number): Position;
+  offsetAt(position: Position): number;
+}
+
+/** Converts between string offsets and 1-based line/column positions. */
+export function createPositionLookup(text: string): PositionLookup {
+  const lineStarts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') lineStarts.push(index + 1);
+  }
+
+  return {
+    positionAt(offset) {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (lineStarts[middle] <= offset) {
+          low = middle;
+        } else {
+          high = middle - 1;
+        }
+      }
+      return { line: low + 1, column: offset - lineStarts[low] + 1 };
+    },
+    offsetAt({ line, column }) {
+      const lineStart = lineStarts[Math.min(Math.max(line, 1), lineStarts.length) - 1];
+      return lineStart + column - 1;
+    },
+  };
+}
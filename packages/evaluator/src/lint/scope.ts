@@ -0,0 +1,437 @@
+// ESTree nodes as produced by acorn. Fields are accessed by node type, so a
+// loose shape keeps the walker readable.
+export type EstreeNode = { type: string; start: number; end: number; [key: string]: any };
+
+export type VariableKind = 'var' | 'let' | 'const' | 'function' | 'class' | 'param' | 'import' | 'catch' | 'implicit';
+
+export interface Variable {
+  name: string;
+  kind: VariableKind;
+  identifier: EstreeNode; // First declaration.
+  redeclarations: EstreeNode[];
+  reads: number;
+  writes: number; // Initializers count as writes.
+  exported: boolean;
+}
+
+export interface Scope {
+  type: 'global' | 'module' | 'function' | 'block' | 'class';
+  parent: Scope | null;
+  variables: Map<string, Variable>;
+  params: Variable[]; // Function parameters in declaration order.
+}
+
+export interface Reference {
+  identifier: EstreeNode;
+  variable: Variable | null; // null when no enclosing scope declares the name.
+  typeofOperand: boolean;
+}
+
+export interface ScopeAnalysis {
+  scopes: Scope[];
+  references: Reference[];
+}
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression']);
+const SKIPPED_KEYS = new Set(['type', 'start', 'end', 'loc', 'range']);
+
+function isNode(value: unknown): value is EstreeNode {
+  return typeof value === 'object' && value !== null && typeof (value as EstreeNode).type === 'string';
+}
+
+/** Visits the direct child nodes of an ESTree node. */
+export function forEachChild(node: EstreeNode, visit: (child: EstreeNode) => void): void {
+  for (const key of Object.keys(node)) {
+    if (SKIPPED_KEYS.has(key)) continue;
+    const value = node[key];
+    if (Array.isArray(value)) {
+      value.forEach((item) => isNode(item) && visit(item));
+    } else if (isNode(value)) {
+      visit(value);
+    }
+  }
+}
+
+/** Collects the identifiers a binding pattern declares. */
+function patternIdentifiers(pattern: EstreeNode | null, found: EstreeNode[] = []): EstreeNode[] {
+  if (!pattern) return found;
+  switch (pattern.type) {
+    case 'Identifier':
+      found.push(pattern);
+      break;
+    case 'ObjectPattern':
+      pattern.properties.forEach((property: EstreeNode) =>
+        patternIdentifiers(property.type === 'RestElement' ? property.argument : property.value, found)
+      );
+      break;
+    case 'ArrayPattern':
+      pattern.elements.forEach((element: EstreeNode | null) => patternIdentifiers(element, found));
+      break;
+    case 'AssignmentPattern':
+      patternIdentifiers(pattern.left, found);
+      break;
+    case 'RestElement':
+      patternIdentifiers(pattern.argument, found);
+      break;
+  }
+  return found;
+}
+
+/**
+ * Builds the scope tree for a program and resolves every identifier
+ * reference against it. Declarations are hoisted into their scope before the
+ * scope's body is walked, so references resolve regardless of order.
+ */
+class ScopeAnalyzer {
+  readonly scopes: Scope[] = [];
+  readonly references: Reference[] = [];
+  private current: Scope | null = null;
+
+  analyze(program: EstreeNode, sourceType: 'module' | 'script'): ScopeAnalysis {
+    const scope = this.push(sourceType === 'module' ? 'module' : 'global');
+    this.hoistVars(program, scope);
+    this.declareLexical(program.body, scope);
+    program.body.forEach((statement: EstreeNode) => this.visit(statement, program));
+    return { scopes: this.scopes, references: this.references };
+  }
+
+  private push(type: Scope['type']): Scope {
+    const scope: Scope = { type, parent: this.current, variables: new Map(), params: [] };
+    this.scopes.push(scope);
+    this.current = scope;
+    return scope;
+  }
+
+  private pop(): void {
+    this.current = this.current!.parent;
+  }
+
+  private declare(scope: Scope, identifier: EstreeNode, kind: VariableKind): Variable {
+    const existing = scope.variables.get(identifier.name);
+    if (existing) {
+      existing.redeclarations.push(identifier);
+      return existing;
+    }
+    const variable: Variable = { name: identifier.name, kind, identifier, redeclarations: [], reads: 0, writes: 0, exported: false };
+    scope.variables.set(identifier.name, variable);
+    return variable;
+  }
+
+  private resolve(name: string): Variable | null {
+    for (let scope = this.current; scope; scope = scope.parent) {
+      const variable = scope.variables.get(name);
+      if (variable) return variable;
+    }
+    return null;
+  }
+
+  private reference(identifier: EstreeNode, { read = true, write = false, typeofOperand = false } = {}): void {
+    const variable = this.resolve(identifier.name);
+    if (variable) {
+      if (read) variable.reads++;
+      if (write) variable.writes++;
+    }
+    this.references.push({ identifier, variable, typeofOperand });
+  }
+
+  // `var` declarations anywhere in a function body belong to the function scope.
+  private hoistVars(node: EstreeNode, scope: Scope): void {
+    forEachChild(node, (child) => {
+      if (FUNCTION_TYPES.has(child.type) || child.type === 'StaticBlock') return;
+      if (child.type === 'VariableDeclaration' && child.kind === 'var') {
+        child.declarations.forEach((declarator: EstreeNode) =>
+          patternIdentifiers(declarator.id).forEach((identifier) => this.declare(scope, identifier, 'var'))
+        );
+      }
+      this.hoistVars(child, scope);
+    });
+  }
+
+  // Block-scoped declarations made directly in a statement list.
+  private declareLexical(statements: EstreeNode[], scope: Scope): void {
+    for (const statement of statements) {
+      const exported = statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration';
+      const declaration = exported ? statement.declaration : statement;
+      if (!declaration) continue;
+
+      const declared: Variable[] = [];
+      if (declaration.type === 'VariableDeclaration') {
+        for (const declarator of declaration.declarations) {
+          for (const identifier of patternIdentifiers(declarator.id)) {
+            // `var` bindings were already hoisted into the enclosing function scope.
+            const variable =
+              declaration.kind === 'var' ? scope.variables.get(identifier.name) : this.declare(scope, identifier, declaration.kind);
+            if (variable) declared.push(variable);
+          }
+        }
+      } else if (declaration.type === 'FunctionDeclaration' && declaration.id) {
+        declared.push(this.declare(scope, declaration.id, 'function'));
+      } else if (declaration.type === 'ClassDeclaration' && declaration.id) {
+        declared.push(this.declare(scope, declaration.id, 'class'));
+      } else if (declaration.type === 'ImportDeclaration') {
+        declaration.specifiers.forEach((specifier: EstreeNode) => this.declare(scope, specifier.local, 'import'));
+      }
+
+      if (exported) {
+        declared.forEach((variable) => (variable.exported = true));
+      }
+    }
+  }
+
+  private visitStatements(statements: EstreeNode[], parent: EstreeNode): void {
+    statements.forEach((statement) => this.visit(statement, parent));
+  }
+
+  private visitBlock(statements: EstreeNode[], parent: EstreeNode): void {
+    this.declareLexical(statements, this.push('block'));
+    this.visitStatements(statements, parent);
+    this.pop();
+  }
+
+  // Visits default values and computed keys inside a binding pattern.
+  private visitPatternExpressions(pattern: EstreeNode | null): void {
+    if (!pattern) return;
+    switch (pattern.type) {
+      case 'ObjectPattern':
+        for (const property of pattern.properties) {
+          if (property.type === 'RestElement') {
+            this.visitPatternExpressions(property.argument);
+          } else {
+            if (property.computed) this.visit(property.key, property);
+            this.visitPatternExpressions(property.value);
+          }
+        }
+        break;
+      case 'ArrayPattern':
+        pattern.elements.forEach((element: EstreeNode | null) => this.visitPatternExpressions(element));
+        break;
+      case 'AssignmentPattern':
+        this.visitPatternExpressions(pattern.left);
+        this.visit(pattern.right, pattern);
+        break;
+      case 'RestElement':
+        this.visitPatternExpressions(pattern.argument);
+        break;
+    }
+  }
+
+  // Visits the target of an assignment, which may mix patterns and member expressions.
+  private visitAssignmentTarget(target: EstreeNode, read: boolean): void {
+    switch (target.type) {
+      case 'Identifier':
+        this.reference(target, { read, write: true });
+        break;
+      case 'ObjectPattern':
+        for (const property of target.properties) {
+          if (property.type === 'RestElement') {
+            this.visitAssignmentTarget(property.argument, false);
+          } else {
+            if (property.computed) this.visit(property.key, property);
+            this.visitAssignmentTarget(property.value, false);
+          }
+        }
+        break;
+      case 'ArrayPattern':
+        target.elements.forEach((element: EstreeNode | null) => element && this.visitAssignmentTarget(element, false));
+        break;
+      case 'AssignmentPattern':
+        this.visitAssignmentTarget(target.left, false);
+        this.visit(target.right, target);
+        break;
+      case 'RestElement':
+        this.visitAssignmentTarget(target.argument, false);
+        break;
+      default:
+        this.visit(target, target);
+    }
+  }
+
+  private visitFunction(node: EstreeNode): void {
+    if (node.type === 'FunctionExpression' && node.id) {
+      // A named function expression can refer to itself by name.
+      this.declare(this.push('function'), node.id, 'implicit');
+    }
+
+    const scope = this.push('function');
+    if (node.type !== 'ArrowFunctionExpression') {
+      this.declare(scope, { type: 'Identifier', name: 'arguments', start: node.start, end: node.start }, 'implicit');
+    }
+    for (const param of node.params) {
+      patternIdentifiers(param).forEach((identifier) => scope.params.push(this.declare(scope, identifier, 'param')));
+    }
+    node.params.forEach((param: EstreeNode) => this.visitPatternExpressions(param));
+
+    if (node.body.type === 'BlockStatement') {
+      this.hoistVars(node.body, scope);
+      this.declareLexical(node.body.body, scope);
+      this.visitStatements(node.body.body, node.body);
+    } else {
+      this.visit(node.body, node);
+    }
+
+    this.pop();
+    if (node.type === 'FunctionExpression' && node.id) {
+      this.pop();
+    }
+  }
+
+  private visitClass(node: EstreeNode): void {
+    const scope = this.push('class');
+    if (node.id) {
+      // Inside the class body the name refers to an inner, immutable binding.
+      this.declare(scope, node.id, 'implicit');
+    }
+    if (node.superClass) this.visit(node.superClass, node);
+    this.visit(node.body, node);
+    this.pop();
+  }
+
+  private visit(node: EstreeNode, parent: EstreeNode): void {
+    switch (node.type) {
+      case 'Identifier':
+        this.reference(node);
+        return;
+
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        this.visitFunction(node);
+        return;
+
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        this.visitClass(node);
+        return;
+
+      case 'VariableDeclaration':
+        for (const declarator of node.declarations) {
+          this.visitPatternExpressions(declarator.id);
+          if (declarator.init) {
+            this.visit(declarator.init, declarator);
+          }
+          if (declarator.init || parent.type === 'ForInStatement' || parent.type === 'ForOfStatement') {
+            patternIdentifiers(declarator.id).forEach((identifier) => {
+              const variable = this.resolve(identifier.name);
+              if (variable) variable.writes++;
+            });
+          }
+        }
+        return;
+
+      case 'BlockStatement':
+        this.visitBlock(node.body, node);
+        return;
+
+      case 'StaticBlock': {
+        const scope = this.push('function');
+        this.hoistVars(node, scope);
+        this.declareLexical(node.body, scope);
+        this.visitStatements(node.body, node);
+        this.pop();
+        return;
+      }
+
+      case 'ForStatement':
+      case 'ForInStatement':
+      case 'ForOfStatement': {
+        const head = node.type === 'ForStatement' ? node.init : node.left;
+        const scoped = head?.type === 'VariableDeclaration' && head.kind !== 'var';
+        if (scoped) this.declareLexical([head], this.push('block'));
+        if (head && head.type !== 'VariableDeclaration' && node.type !== 'ForStatement') {
+          this.visitAssignmentTarget(head, false);
+        } else if (head) {
+          this.visit(head, node);
+        }
+        for (const key of ['test', 'update', 'right', 'body']) {
+          if (node[key]) this.visit(node[key], node);
+        }
+        if (scoped) this.pop();
+        return;
+      }
+
+      case 'SwitchStatement':
+        this.visit(node.discriminant, node);
+        this.declareLexical(node.cases.flatMap((switchCase: EstreeNode) => switchCase.consequent), this.push('block'));
+        for (const switchCase of node.cases) {
+          if (switchCase.test) this.visit(switchCase.test, switchCase);
+          this.visitStatements(switchCase.consequent, switchCase);
+        }
+        this.pop();
+        return;
+
+      case 'CatchClause': {
+        const scope = this.push('block');
+        patternIdentifiers(node.param).forEach((identifier) => this.declare(scope, identifier, 'catch'));
+        this.visitPatternExpressions(node.param);
+        this.visit(node.body, node);
+        this.pop();
+        return;
+      }
+
+      case 'AssignmentExpression':
+        // `a = 1` only writes `a`; compound assignments also read it.
+        this.visitAssignmentTarget(node.left, node.operator !== '=' && parent.type !== 'ExpressionStatement');
+        this.visit(node.right, node);
+        return;
+
+      case 'UpdateExpression':
+        if (node.argument.type === 'Identifier') {
+          this.reference(node.argument, { read: parent.type !== 'ExpressionStatement', write: true });
+        } else {
+          this.visit(node.argument, node);
+        }
+        return;
+
+      case 'UnaryExpression':
+        if (node.operator === 'typeof' && node.argument.type === 'Identifier') {
+          this.reference(node.argument, { typeofOperand: true });
+        } else {
+          this.visit(node.argument, node);
+        }
+        return;
+
+      case 'MemberExpression':
+        this.visit(node.object, node);
+        if (node.computed) this.visit(node.property, node);
+        return;
+
+      case 'Property':
+      case 'MethodDefinition':
+      case 'PropertyDefinition':
+        if (node.computed) this.visit(node.key, node);
+        if (node.value) this.visit(node.value, node);
+        return;
+
+      case 'LabeledStatement':
+        this.visit(node.body, node);
+        return;
+
+      case 'ExportNamedDeclaration':
+        if (node.declaration) {
+          this.visit(node.declaration, node);
+        } else if (!node.source) {
+          node.specifiers.forEach((specifier: EstreeNode) => this.reference(specifier.local));
+        }
+        return;
+
+      case 'ExportDefaultDeclaration':
+        this.visit(node.declaration, node);
+        return;
+
+      case 'ImportDeclaration':
+      case 'ExportAllDeclaration':
+      case 'BreakStatement':
+      case 'ContinueStatement':
+      case 'MetaProperty':
+      case 'Literal':
+        return;
+
+      default:
+        forEachChild(node, (child) => this.visit(child, node));
+    }
+  }
+}
+
+export function analyzeScopes(program: EstreeNode, sourceType: 'module' | 'script'): ScopeAnalysis {
+  return new ScopeAnalyzer().analyze(program, sourceType);
+}
@@ -0,0 +1,14 @@
+export type Severity = 'off' | 'warn' | 'error';
+
+export interface LintIssue {
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+  ruleId: string;
+}
+
+export interface ResolvedRule {
+  severity: Severity;
+  options: unknown[];
+}
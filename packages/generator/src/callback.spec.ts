@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { ReportGenerationRequest } from "@sral/shared";
+import { CALLBACK_MAX_ATTEMPTS, backoffDelay, deliverReport, redeliverReports } from "./callback";
+
+const report: ReportGenerationRequest = {
+  artifact_id: "wave-1-artifact-1",
+  attempt_id: "attempt-1",
+  r2_path: "projects/p/wave-1/wave-1-artifact-1.html",
+  status: "SUCCESS",
+  cost_metrics: { prompt_tokens: 10, completion_tokens: 20 },
+};
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+const createMockEnv = (fetch: (url: string, init: RequestInit) => Promise<Response>) => {
+  const objects = new Map<string, string>();
+  return {
+    objects,
+    R2_BUCKET: {
+      put: vi.fn(async (key: string, value: string) => {
+        objects.set(key, value);
+      }),
+      get: vi.fn(async (key: string) => {
+        const value = objects.get(key);
+        return value === undefined ? null : { json: async () => JSON.parse(value) };
+      }),
+      delete: vi.fn(async (key: string) => {
+        objects.delete(key);
+      }),
+      list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+        objects: [...objects.keys()].filter((key) => key.startsWith(prefix)).map((key) => ({ key })),
+        truncated: false,
+      })),
+    },
+    ORCHESTRATOR: {
+      idFromString: vi.fn((id: string) => id),
+      get: vi.fn(() => ({ fetch })),
+    },
+  };
+};
+
+describe("deliverReport", () => {
+  beforeEach(() => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("retries failed and non-2xx deliveries until one succeeds", async () => {
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockResolvedValueOnce(new Response("Busy", { status: 503 }))
+      .mockResolvedValueOnce(Response.json({ received: true }));
+    const env = createMockEnv(fetch);
+
+    expect(await deliverReport(env as any, "p", report, logger)).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(fetch.mock.calls[2][1].body)).toEqual(report);
+    expect(env.objects.size).toBe(0);
+  });
+
+  it("stores the report for redelivery once retries are exhausted", async () => {
+    const fetch = vi.fn(async () => new Response("Busy", { status: 503 }));
+    const env = createMockEnv(fetch);
+
+    expect(await deliverReport(env as any, "p", report, logger)).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(CALLBACK_MAX_ATTEMPTS);
+    expect(JSON.parse(env.objects.get("undelivered-reports/p/wave-1-artifact-1.json")!)).toMatchObject({
+      orchestrator_id: "p",
+      report,
+      attempts: CALLBACK_MAX_ATTEMPTS,
+      last_error: "Orchestrator responded with 503",
+    });
+  });
+
+  it("neither retries nor stores reports the orchestrator rejects", async () => {
+    const fetch = vi.fn(async () => new Response("Unknown artifact", { status: 404 }));
+    const env = createMockEnv(fetch);
+
+    expect(await deliverReport(env as any, "p", report, logger)).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(env.objects.has("undelivered-reports/p/wave-1-artifact-1.json")).toBe(false);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("draws from a window that doubles with each retry up to a cap", () => {
+    expect([0, 1, 2, 10].map((retry) => backoffDelay(retry, () => 0.999))).toEqual([249, 499, 999, 3996]);
+    expect(backoffDelay(3, () => 0)).toBe(0);
+  });
+});
+
+describe("redeliverReports", () => {
+  it("removes delivered and rejected reports and keeps the rest", async () => {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      const { artifact_id } = JSON.parse(init.body as string);
+      const status = { a: 200, b: 409, c: 502 }[artifact_id as "a" | "b" | "c"];
+      return new Response(null, { status });
+    });
+    const env = createMockEnv(fetch);
+    for (const id of ["a", "b", "c"]) {
+      const undelivered = { orchestrator_id: "p", report: { ...report, artifact_id: id }, attempts: 4, last_error: "", failed_at: 0 };
+      env.objects.set(`undelivered-reports/p/${id}.json`, JSON.stringify(undelivered));
+    }
+
+    expect(await redeliverReports(env as any, logger)).toEqual({ delivered: 1, dropped: 1, pending: 1 });
+    expect([...env.objects.keys()]).toEqual(["undelivered-reports/p/c.json"]);
+  });
+
+  it("drops a stored report that cannot be read and delivers the ones after it", async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 200 }));
+    const env = createMockEnv(fetch);
+    env.objects.set("undelivered-reports/p/a.json", '{"orchestrator_id": "p", "rep');
+    const undelivered = { orchestrator_id: "p", report: { ...report, artifact_id: "b" }, attempts: 4, last_error: "", failed_at: 0 };
+    env.objects.set("undelivered-reports/p/b.json", JSON.stringify(undelivered));
+
+    expect(await redeliverReports(env as any, logger)).toEqual({ delivered: 1, dropped: 1, pending: 0 });
+    expect(env.objects.size).toBe(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { LoggerInstance, ReportGenerationRequest } from "@sral/shared";
+
+interface Env {
+  R2_BUCKET: R2Bucket;
+  ORCHESTRATOR: DurableObjectNamespace;
+}
+
+export const REPORT_GENERATION_URL = "https://orchestrator.internal/report/generation";
+
+// Reports that exhausted their retries, kept until the scheduled redelivery gets them through.
+export const UNDELIVERED_PREFIX = "undelivered-reports/";
+
+// Full jitter over an exponentially growing window: up to 0.25s, 0.5s and 1s between four attempts.
+export const CALLBACK_MAX_ATTEMPTS = 4;
+const CALLBACK_BASE_DELAY_MS = 250;
+const CALLBACK_MAX_DELAY_MS = 4000;
+
+export interface UndeliveredReport {
+  orchestrator_id: string;
+  report: ReportGenerationRequest;
+  attempts: number;
+  last_error: string;
+  failed_at: number; // Unix timestamp.
+}
+
+type Attempt = { ok: true } | { ok: false; retryable: boolean; error: string };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function backoffDelay(retry: number, random: () => number = Math.random): number {
+  return Math.floor(random() * Math.min(CALLBACK_MAX_DELAY_MS, CALLBACK_BASE_DELAY_MS * 2 ** retry));
+}
+
+function undeliveredKey(orchestratorId: string, artifactId: string): string {
+  return `${UNDELIVERED_PREFIX}${orchestratorId}/${artifactId}.json`;
+}
+
+// One delivery attempt. Any non-2xx status is a failure; client errors other than 408 and 429 will not go away on retry.
+async function postReport(env: Env, orchestratorId: string, report: ReportGenerationRequest): Promise<Attempt> {
+  try {
+    const orchestrator = env.ORCHESTRATOR.get(env.ORCHESTRATOR.idFromString(orchestratorId));
+    const response = await orchestrator.fetch(REPORT_GENERATION_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(report),
+    });
+    if (response.ok) {
+      return { ok: true };
+    }
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    return { ok: false, retryable, error: `Orchestrator responded with ${response.status}` };
+  } catch (error) {
+    return { ok: false, retryable: true, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Reports a generation result to the orchestrator, retrying transient failures
+ * with backoff. A report that still cannot be delivered is stored in R2 for
+ * redeliverReports; one the orchestrator rejected outright is dropped. Returns
+ * whether the orchestrator accepted the report.
+ */
+export async function deliverReport(
+  env: Env,
+  orchestratorId: string,
+  report: ReportGenerationRequest,
+  logger: LoggerInstance
+): Promise<boolean> {
+  let attempts = 0;
+  let attempt: Attempt = { ok: false, retryable: true, error: "" };
+  while (attempts < CALLBACK_MAX_ATTEMPTS && !attempt.ok && attempt.retryable) {
+    if (attempts > 0) {
+      await sleep(backoffDelay(attempts - 1));
+    }
+    attempt = await postReport(env, orchestratorId, report);
+    attempts++;
+    if (!attempt.ok) {
+      logger.warn("Report delivery failed", { attempt: attempts, retryable: attempt.retryable, reason: attempt.error });
+    }
+  }
+  if (attempt.ok) {
+    return true;
+  }
+  if (!attempt.retryable) {
+    logger.error("Report rejected by orchestrator, dropped", new Error(attempt.error));
+    return false;
+  }
+
+  const undelivered: UndeliveredReport = {
+    orchestrator_id: orchestratorId,
+    report,
+    attempts,
+    last_error: attempt.error,
+    failed_at: Date.now(),
+  };
+  try {
+    const key = undeliveredKey(orchestratorId, report.artifact_id);
+    await env.R2_BUCKET.put(key, JSON.stringify(undelivered), {
+      httpMetadata: { contentType: "application/json" },
+    });
+    logger.warn("Report stored for redelivery", { key });
+  } catch (error) {
+    logger.error("Report lost: could not store it for redelivery", error instanceof Error ? error : new Error(String(error)));
+  }
+  return false;
+}
+
+/**
+ * Makes one more delivery attempt for every stored report. Delivered reports
+ * are removed, as are reports the orchestrator rejected outright and stored
+ * reports that cannot be read; the rest stay for the next run.
+ */
+export async function redeliverReports(env: Env, logger: LoggerInstance): Promise<{ delivered: number; dropped: number; pending: number }> {
+  const summary = { delivered: 0, dropped: 0, pending: 0 };
+  let cursor: string | undefined;
+
+  do {
+    const listing = await env.R2_BUCKET.list({ prefix: UNDELIVERED_PREFIX, cursor });
+    for (const { key } of listing.objects) {
+      const object = await env.R2_BUCKET.get(key);
+      if (!object) continue;
+      let undelivered: UndeliveredReport;
+      try {
+        undelivered = await object.json<UndeliveredReport>();
+      } catch (error) {
+        await env.R2_BUCKET.delete(key);
+        summary.dropped++;
+        logger.error("Dropping stored report that cannot be read", error instanceof Error ? error : new Error(String(error)));
+        continue;
+      }
+
+      const attempt = await postReport(env, undelivered.orchestrator_id, undelivered.report);
+      if (attempt.ok || !attempt.retryable) {
+        await env.R2_BUCKET.delete(key);
+      }
+      if (attempt.ok) {
+        summary.delivered++;
+      } else if (!attempt.retryable) {
+        summary.dropped++;
+        logger.warn("Dropping report rejected by orchestrator", { key, reason: attempt.error });
+      } else {
+        summary.pending++;
+      }
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return summary;
+}
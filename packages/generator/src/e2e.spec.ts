@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import worker from "./index";
+import { CALLBACK_MAX_ATTEMPTS } from "./callback";
 import type { GenerateRequest, ReportGenerationRequest } from "@sral/shared";
 
+const ATTEMPT_ID = "00000000-0000-4000-8000-000000000001";
+
 describe("Generator E2E Tests", () => {
   let mockOrchestratorFetch: ReturnType<typeof vi.fn>;
   let mockEnv: any;
@@ -9,6 +12,7 @@ describe("Generator E2E Tests", () => {
 
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.spyOn(crypto, "randomUUID").mockReturnValue(ATTEMPT_ID);
     
     // Setup mock orchestrator callback
     mockOrchestratorFetch = vi.fn().mockResolvedValue(new Response("OK", { status: 200 }));
@@ -19,7 +23,8 @@ describe("Generator E2E Tests", () => {
         run: vi.fn()
       },
       R2_BUCKET: {
-        put: vi.fn()
+        put: vi.fn(),
+        head: vi.fn()
       },
       ORCHESTRATOR: {
         idFromString: vi.fn().mockReturnValue({ toString: () => "mock-orchestrator-id" }),
@@ -113,7 +118,7 @@ describe("Generator E2E Tests", () => {
       expect(mockEnv.R2_BUCKET.put).toHaveBeenCalledWith(
         "project-e2e/wave_1/artifact_001/dashboard.html",
         aiResponse.response,
-        { httpMetadata: { contentType: "text/html" } }
+        expect.objectContaining({ httpMetadata: { contentType: "text/html" } })
       );
 
       // Verify orchestrator callback
@@ -124,9 +129,11 @@ describe("Generator E2E Tests", () => {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             artifact_id: "e2e-test-artifact-001",
+            attempt_id: ATTEMPT_ID,
             r2_path: "project-e2e/wave_1/artifact_001/dashboard.html",
             status: "SUCCESS",
             cost_metrics: { prompt_tokens: 125, completion_tokens: 340 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           } as ReportGenerationRequest),
         }
       );
@@ -166,9 +173,11 @@ describe("Generator E2E Tests", () => {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             artifact_id: "e2e-failure-test",
+            attempt_id: ATTEMPT_ID,
             r2_path: null,
             status: "FAILED",
             cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           } as ReportGenerationRequest),
         }
       );
@@ -208,9 +217,11 @@ describe("Generator E2E Tests", () => {
         expect.objectContaining({
           body: JSON.stringify({
             artifact_id: "e2e-storage-failure",
+            attempt_id: ATTEMPT_ID,
             r2_path: null,
             status: "FAILED",
-            cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+            cost_metrics: { prompt_tokens: 50, completion_tokens: 20 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         })
       );
@@ -322,7 +333,7 @@ describe("Generator E2E Tests", () => {
       expect(mockEnv.R2_BUCKET.put).toHaveBeenCalledWith(
         "integrity-test/wave_1/artifact_xyz/output.html",
         "<html><body><h1>INTEGRITY_TEST_MARKER_XYZ</h1></body></html>",
-        { httpMetadata: { contentType: "text/html" } }
+        expect.objectContaining({ httpMetadata: { contentType: "text/html" } })
       );
 
       // Verify orchestrator callback has exact data integrity
@@ -331,9 +342,11 @@ describe("Generator E2E Tests", () => {
       
       expect(callbackBody).toEqual({
         artifact_id: "integrity-artifact-uuid-12345",
+        attempt_id: ATTEMPT_ID,
         r2_path: "integrity-test/wave_1/artifact_xyz/output.html",
         status: "SUCCESS",
         cost_metrics: { prompt_tokens: 15, completion_tokens: 25 },
+        generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
       });
 
       // Verify orchestrator binding was called with correct ID
@@ -378,9 +391,11 @@ describe("Generator E2E Tests", () => {
         expect.objectContaining({
           body: JSON.stringify({
             artifact_id: "large-prompt-test",
+            attempt_id: ATTEMPT_ID,
             r2_path: "large-prompts/test.html",
             status: "SUCCESS",
             cost_metrics: { prompt_tokens: 2500, completion_tokens: 50 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         })
       );
@@ -415,9 +430,11 @@ describe("Generator E2E Tests", () => {
         expect.objectContaining({
           body: JSON.stringify({
             artifact_id: "missing-usage-test",
+            attempt_id: ATTEMPT_ID,
             r2_path: "missing-usage/test.html",
             status: "SUCCESS",
             cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         })
       );
@@ -435,7 +452,8 @@ describe("Generator E2E Tests", () => {
           })
         },
         R2_BUCKET: {
-          put: vi.fn().mockResolvedValue({} as any)
+          put: vi.fn().mockResolvedValue({} as any),
+          head: vi.fn()
         },
         ORCHESTRATOR: {
           idFromString: vi.fn().mockReturnValue({ toString: () => "callback-failure-orchestrator" }),
@@ -459,6 +477,9 @@ describe("Generator E2E Tests", () => {
         body: JSON.stringify(testRequest),
       });
 
+      // No backoff delays
+      vi.spyOn(Math, "random").mockReturnValue(0);
+
       const response = await worker.fetch(request, freshMockEnv, freshMockCtx);
       
       // Should not throw even if callback fails
@@ -467,36 +488,34 @@ describe("Generator E2E Tests", () => {
 
       // Verify processing still occurred
       expect(freshMockEnv.AI.run).toHaveBeenCalledOnce();
-      expect(freshMockEnv.R2_BUCKET.put).toHaveBeenCalledOnce();
-      
-      // Should call orchestrator twice: once for success (which fails) and once for error reporting (which also fails)
-      expect(failingMockFetch).toHaveBeenCalledTimes(2);
-      
-      // Verify first call was for success
-      expect(failingMockFetch).toHaveBeenNthCalledWith(1,
-        "https://orchestrator.internal/report/generation",
-        expect.objectContaining({
-          body: JSON.stringify({
-            artifact_id: "callback-failure-test",
-            r2_path: "callback-failure/test.html",
-            status: "SUCCESS",
-            cost_metrics: { prompt_tokens: 10, completion_tokens: 20 },
-          }),
-        })
-      );
       
-      // Verify second call was for error reporting
-      expect(failingMockFetch).toHaveBeenNthCalledWith(2,
-        "https://orchestrator.internal/report/generation",
-        expect.objectContaining({
-          body: JSON.stringify({
-            artifact_id: "callback-failure-test",
-            r2_path: null,
-            status: "FAILED",
-            cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
-          }),
-        })
-      );
+      // The success report is retried rather than replaced by a failure report
+      expect(failingMockFetch).toHaveBeenCalledTimes(CALLBACK_MAX_ATTEMPTS);
+      const successReport = {
+        artifact_id: "callback-failure-test",
+        attempt_id: ATTEMPT_ID,
+        r2_path: "callback-failure/test.html",
+        status: "SUCCESS",
+        cost_metrics: { prompt_tokens: 10, completion_tokens: 20 },
+        generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
+      };
+      for (const call of failingMockFetch.mock.calls) {
+        expect(call).toEqual([
+          "https://orchestrator.internal/report/generation",
+          expect.objectContaining({ body: JSON.stringify(successReport) }),
+        ]);
+      }
+
+      // Then kept in R2 next to the artifact so it can be redelivered
+      expect(freshMockEnv.R2_BUCKET.put).toHaveBeenCalledTimes(2);
+      const [key, stored] = freshMockEnv.R2_BUCKET.put.mock.calls[1] as any[];
+      expect(key).toBe(`undelivered-reports/${testRequest.orchestrator_id}/callback-failure-test.json`);
+      expect(JSON.parse(stored)).toMatchObject({
+        orchestrator_id: testRequest.orchestrator_id,
+        report: successReport,
+        attempts: CALLBACK_MAX_ATTEMPTS,
+        last_error: "Network timeout",
+      });
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { extractArtifact } from "./extract";
+
+const document = (body: string) => `<!DOCTYPE html>\n<html lang="en">\n<head><title>T</title></head>\n<body>${body}</body>\n</html>`;
+
+describe("extractArtifact", () => {
+  it("strips prose and code fences around an HTML document", () => {
+    const output = `Sure! Here is the page you asked for:\n\n\`\`\`html\n${document("<p>Hi</p>")}\n\`\`\`\n\nLet me know if you need changes.`;
+
+    expect(extractArtifact(output, "self_contained_html")).toEqual({
+      ok: true,
+      value: { content: document("<p>Hi</p>"), contentType: "text/html" },
+    });
+  });
+
+  it("keeps the largest complete document", () => {
+    const draft = document("<p>Draft</p>");
+    const final = document("<main><h1>Final</h1><p>Longer version</p></main>");
+    const truncated = "<!DOCTYPE html>\n<html><head></head><body><p>Cut off mid-way and never finished, but much longer than the others";
+
+    const result = extractArtifact(`${draft}\n\nImproved:\n${final}\n\nAnother try:\n${truncated}`, "self_contained_html");
+    expect(result.ok && result.value.content).toBe(final);
+  });
+
+  it("does not merge an abandoned document into the next one", () => {
+    const output = `<html><body><p>Oops\n\nLet me start over.\n\n${document("<p>Clean</p>")}`;
+    expect(extractArtifact(output, "self_contained_html")).toMatchObject({ ok: true, value: { content: document("<p>Clean</p>") } });
+  });
+
+  it("fails with a reason code when no valid document can be recovered", () => {
+    expect(extractArtifact("  \n", "self_contained_html")).toMatchObject({ ok: false, error: { reason: "EMPTY_OUTPUT" } });
+    expect(extractArtifact("I cannot help with that.", "self_contained_html")).toMatchObject({
+      ok: false,
+      error: { reason: "NO_HTML_DOCUMENT" },
+    });
+    expect(extractArtifact("<!DOCTYPE html>\n<html><body><p>Truncated", "self_contained_html")).toMatchObject({
+      ok: false,
+      error: { reason: "INVALID_HTML" },
+    });
+    expect(extractArtifact("<html></html>", "self_contained_html")).toMatchObject({ ok: false, error: { reason: "INVALID_HTML" } });
+  });
+
+  it("keeps the largest fenced block for other formats and the raw output without a format", () => {
+    expect(extractArtifact("Here:\n```md\n# Title\n```\nDone.", "markdown")).toEqual({
+      ok: true,
+      value: { content: "# Title", contentType: "text/plain" },
+    });
+    expect(extractArtifact("<h1>Hi</h1>")).toEqual({ ok: true, value: { content: "<h1>Hi</h1>", contentType: "text/html" } });
+    expect(extractArtifact("plain", "constructor")).toEqual({ ok: true, value: { content: "plain", contentType: "text/plain" } });
+  });
+});
@@ -0,0 +1,76 @@
+import { GenerationFailureReason } from "@sral/shared";
+
+export interface ExtractedArtifact {
+  content: string;
+  contentType: string;
+}
+
+export type ExtractionResult =
+  | { ok: true; value: ExtractedArtifact }
+  | { ok: false; error: { reason: GenerationFailureReason; message: string } };
+
+type Extractor = (output: string) => ExtractionResult;
+
+const DOCUMENT_START = /<!DOCTYPE\s+html[^>]*>|<html[\s>]/gi;
+const DOCUMENT_END = /<\/html\s*>/i;
+const FENCED_BLOCK = /```[^\n`]*\n([\s\S]*?)```/g;
+
+function failure(reason: GenerationFailureReason, message: string): ExtractionResult {
+  return { ok: false, error: { reason, message } };
+}
+
+/**
+ * Finds every HTML document in the output, wherever it sits among prose or
+ * code fences, and keeps the largest one that is complete: it must close its
+ * <html> element and contain a <head> or <body>.
+ */
+function extractHtmlDocument(output: string): ExtractionResult {
+  // An <html> tag right after a doctype starts the same document as the doctype.
+  const starts = [...output.matchAll(DOCUMENT_START)]
+    .map((match) => match.index!)
+    .filter((index, position, all) => position === 0 || !/^<!DOCTYPE[^>]*>\s*$/i.test(output.slice(all[position - 1], index)));
+
+  const documents: string[] = [];
+  for (const [position, start] of starts.entries()) {
+    // A document that is not closed before the next one starts was cut off or abandoned.
+    const candidate = output.slice(start, starts[position + 1] ?? output.length);
+    const end = candidate.match(DOCUMENT_END);
+    if (!end) continue;
+    const document = candidate.slice(0, end.index! + end[0].length);
+    if (/<(head|body)[\s>]/i.test(document)) {
+      documents.push(document);
+    }
+  }
+
+  if (documents.length === 0) {
+    return starts.length === 0
+      ? failure("NO_HTML_DOCUMENT", "Model output contains no HTML document")
+      : failure("INVALID_HTML", "Model output contains only incomplete HTML documents");
+  }
+  const largest = documents.reduce((best, document) => (document.length > best.length ? document : best));
+  return { ok: true, value: { content: largest, contentType: "text/html" } };
+}
+
+// Formats without a dedicated extractor keep the largest fenced block, or the whole output when there is none.
+function extractText(output: string): ExtractionResult {
+  const blocks = [...output.matchAll(FENCED_BLOCK)].map((match) => match[1].trim()).filter(Boolean);
+  const content = blocks.length > 0 ? blocks.reduce((best, block) => (block.length > best.length ? block : best)) : output.trim();
+  return { ok: true, value: { content, contentType: "text/plain" } };
+}
+
+const EXTRACTORS = new Map<string, Extractor>([["self_contained_html", extractHtmlDocument]]);
+
+/**
+ * Recovers the artifact from raw model output for the spec's output format,
+ * dropping the prose and code fences models tend to wrap it in. Without an
+ * output format the output is kept exactly as returned.
+ */
+export function extractArtifact(output: string, outputFormat?: string): ExtractionResult {
+  if (outputFormat === undefined) {
+    return { ok: true, value: { content: output, contentType: "text/html" } };
+  }
+  if (output.trim() === "") {
+    return failure("EMPTY_OUTPUT", "Model returned no output");
+  }
+  return (EXTRACTORS.get(outputFormat) ?? extractText)(output);
+}
@@ -0,0 +1,41 @@
+import { LlmRequest, ReportGenerationRequest } from "@sral/shared";
+
+// Custom metadata stored on every artifact so a repeated request can be recognised.
+export interface ArtifactMetadata extends Record<string, string> {
+  artifact_id: string;
+  prompt_hash: string; // SHA-256 of the model request, so a changed prompt or setting regenerates.
+  attempt_id: string; // The generation run that wrote the artifact.
+  report: string; // The ReportGenerationRequest sent for the artifact, as JSON.
+}
+
+/** Hex SHA-256 of everything sent to the model. */
+export async function hashGenerationRequest(request: LlmRequest): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(request)));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function artifactMetadata(promptHash: string, report: ReportGenerationRequest): ArtifactMetadata {
+  return { artifact_id: report.artifact_id, prompt_hash: promptHash, attempt_id: report.attempt_id, report: JSON.stringify(report) };
+}
+
+/**
+ * Returns the report of an artifact already generated at `path` for the same
+ * artifact id and prompt hash, or null when the generation has to run. A
+ * failed lookup counts as a miss: regenerating is safe, only wasteful.
+ */
+export async function findPriorReport(
+  bucket: R2Bucket,
+  path: string,
+  artifactId: string,
+  promptHash: string
+): Promise<ReportGenerationRequest | null> {
+  try {
+    const metadata = (await bucket.head(path))?.customMetadata;
+    if (!metadata || metadata.artifact_id !== artifactId || metadata.prompt_hash !== promptHash || !metadata.report) {
+      return null;
+    }
+    return JSON.parse(metadata.report) as ReportGenerationRequest;
+  } catch {
+    return null;
+  }
+}
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import worker from "./index";
 import type { GenerateRequest } from "@sral/shared";
 
+const ATTEMPT_ID = "00000000-0000-4000-8000-000000000001";
+
 // Mock Cloudflare runtime environment
 const createMockEnv = () => ({
   AI: {
@@ -9,6 +11,7 @@ const createMockEnv = () => ({
   },
   R2_BUCKET: {
     put: vi.fn(),
+    head: vi.fn(),
   },
   ORCHESTRATOR: {
     get: vi.fn(),
@@ -27,6 +30,7 @@ describe("Generator Worker", () => {
 
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.spyOn(crypto, "randomUUID").mockReturnValue(ATTEMPT_ID);
     env = createMockEnv();
     ctx = createMockExecutionContext();
   });
@@ -78,7 +82,10 @@ describe("Generator Worker", () => {
         const response = await worker.fetch(request, env as any, ctx as any);
 
         expect(response.status).toBe(400);
-        expect(await response.text()).toBe("Invalid request body");
+        const body = (await response.json()) as { error: string; issues: { path: string }[] };
+        expect(body.error).toBe("Invalid request body");
+        expect(body.issues).toHaveLength(1);
+        expect(body.issues[0].path).toBe("(root)");
       }
     });
 
@@ -93,7 +100,10 @@ describe("Generator Worker", () => {
         const response = await worker.fetch(request, env as any, ctx as any);
 
         expect(response.status).toBe(400);
-        expect(await response.text()).toBe("Missing required fields");
+        expect(await response.json()).toEqual({
+          error: "Invalid request body",
+          issues: [{ path: missingField, message: "is required" }],
+        });
       }
     });
 
@@ -215,7 +225,7 @@ describe("Generator Worker", () => {
       expect(env.R2_BUCKET.put).toHaveBeenCalledWith(
         "waituntil-test/dashboard.html",
         aiResponse.response,
-        { httpMetadata: { contentType: "text/html" } }
+        expect.objectContaining({ httpMetadata: { contentType: "text/html" } })
       );
 
       // Verify orchestrator callback with correct data
@@ -226,9 +236,11 @@ describe("Generator Worker", () => {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             artifact_id: "waituntil-test-artifact",
+            attempt_id: ATTEMPT_ID,
             r2_path: "waituntil-test/dashboard.html",
             status: "SUCCESS",
             cost_metrics: { prompt_tokens: 45, completion_tokens: 85 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         }
       );
@@ -238,6 +250,175 @@ describe("Generator Worker", () => {
       expect(env.ORCHESTRATOR.get).toHaveBeenCalledWith("waituntil-orchestrator-id");
     });
 
+    it("should pass the generation config through to the model and echo the effective settings", async () => {
+      const request = createHttpRequest(createValidRequest({
+        generation_config: { model: "@cf/meta/llama-3.1-8b-instruct", temperature: 0.9, seed: 7, system: "You write HTML." },
+      }));
+
+      env.AI.run.mockResolvedValue({ response: "<h1>Sampled</h1>" });
+      env.R2_BUCKET.put.mockResolvedValue({});
+      const mockFetch = vi.fn().mockResolvedValue(new Response());
+      env.ORCHESTRATOR.idFromString.mockReturnValue("mock-id");
+      env.ORCHESTRATOR.get.mockReturnValue({ fetch: mockFetch });
+
+      await worker.fetch(request, env as any, ctx as any);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      expect(env.AI.run).toHaveBeenCalledWith("@cf/meta/llama-3.1-8b-instruct", {
+        messages: [
+          { role: "system", content: "You write HTML." },
+          { role: "user", content: "Generate a simple HTML page with 'Hello World'" },
+        ],
+        temperature: 0.9,
+        seed: 7,
+      });
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).generation_config).toEqual({
+        model: "@cf/meta/llama-3.1-8b-instruct",
+        temperature: 0.9,
+        seed: 7,
+        chat_messages: 1,
+      });
+    });
+
+    it("should report the model the provider actually ran", async () => {
+      const fetchSpy = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        choices: [{ message: { content: "<h1>Hi</h1>" } }],
+        usage: { prompt_tokens: 6, completion_tokens: 7 },
+      })));
+      vi.stubGlobal("fetch", fetchSpy);
+      const openAiEnv = { ...env, LLM_PROVIDER: "openai", LLM_BASE_URL: "https://llm.example.com/v1", LLM_MODEL: "gpt-4o-mini" };
+      env.R2_BUCKET.put.mockResolvedValue({});
+      const mockFetch = vi.fn().mockResolvedValue(new Response());
+      env.ORCHESTRATOR.idFromString.mockReturnValue("mock-id");
+      env.ORCHESTRATOR.get.mockReturnValue({ fetch: mockFetch });
+
+      try {
+        await worker.fetch(createHttpRequest(createValidRequest()), openAiEnv as any, ctx as any);
+        await ctx.waitUntil.mock.calls[0][0];
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).generation_config).toEqual({ model: "gpt-4o-mini", chat_messages: 0 });
+    });
+
+    it("should reject models that are not on the allowlist", async () => {
+      const request = createHttpRequest(createValidRequest({ generation_config: { model: "@cf/unknown/model" } }));
+      const response = await worker.fetch(request, env as any, ctx as any);
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as any;
+      expect(body.issues[0].path).toBe("generation_config.model");
+      expect(ctx.waitUntil).not.toHaveBeenCalled();
+    });
+
+    it("should store only the HTML document extracted from the model output", async () => {
+      const html = "<!DOCTYPE html>\n<html><body><p>Hi</p></body></html>";
+      const request = createHttpRequest(createValidRequest({ output_format: "self_contained_html" }));
+
+      env.AI.run.mockResolvedValue({ response: `Here you go:\n\`\`\`html\n${html}\n\`\`\``, usage: { prompt_tokens: 5, completion_tokens: 9 } });
+      env.R2_BUCKET.put.mockResolvedValue({});
+      env.ORCHESTRATOR.idFromString.mockReturnValue("mock-id");
+      env.ORCHESTRATOR.get.mockReturnValue({ fetch: vi.fn().mockResolvedValue(new Response()) });
+
+      await worker.fetch(request, env as any, ctx as any);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      expect(env.R2_BUCKET.put).toHaveBeenCalledWith("test/artifact.html", html, expect.objectContaining({ httpMetadata: { contentType: "text/html" } }));
+    });
+
+    it("should generate an HTML document offline with the fake provider", async () => {
+      const request = createHttpRequest(createValidRequest({ output_format: "self_contained_html" }));
+      env.R2_BUCKET.put.mockResolvedValue({});
+      const mockFetch = vi.fn().mockResolvedValue(new Response());
+      env.ORCHESTRATOR.idFromString.mockReturnValue("mock-id");
+      env.ORCHESTRATOR.get.mockReturnValue({ fetch: mockFetch });
+
+      await worker.fetch(request, { ...env, LLM_PROVIDER: "fake" } as any, ctx as any);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      expect(env.AI.run).not.toHaveBeenCalled();
+      expect(env.R2_BUCKET.put).toHaveBeenCalledWith("test/artifact.html", expect.stringMatching(/^<!DOCTYPE html>/), expect.anything());
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).status).toBe("SUCCESS");
+    });
+
+    it("should tag the artifact with its id, prompt hash and report", async () => {
+      const request = createHttpRequest(createValidRequest());
+
+      env.AI.run.mockResolvedValue({ response: "<h1>Hi</h1>" });
+      env.R2_BUCKET.put.mockResolvedValue({});
+      const mockFetch = vi.fn().mockResolvedValue(new Response());
+      env.ORCHESTRATOR.idFromString.mockReturnValue("mock-id");
+      env.ORCHESTRATOR.get.mockReturnValue({ fetch: mockFetch });
+
+      await worker.fetch(request, env as any, ctx as any);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      const { customMetadata } = env.R2_BUCKET.put.mock.calls[0][2];
+      expect(customMetadata.artifact_id).toBe("test-artifact");
+      expect(customMetadata.prompt_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(customMetadata.report).toBe(mockFetch.mock.calls[0][1].body);
+    });
+
+    it("should re-report an artifact already generated from the same prompt without calling the model", async () => {
+      env.AI.run.mockResolvedValue({ response: "<h1>Hi</h1>", usage: { prompt_tokens: 3, completion_tokens: 4 } });
+      env.R2_BUCKET.put.mockResolvedValue({});
+      const mockFetch = vi.fn().mockResolvedValue(new Response());
+      env.ORCHESTRATOR.idFromString.mockReturnValue("mock-id");
+      env.ORCHESTRATOR.get.mockReturnValue({ fetch: mockFetch });
+
+      await worker.fetch(createHttpRequest(createValidRequest()), env as any, ctx as any);
+      await ctx.waitUntil.mock.calls[0][0];
+      env.R2_BUCKET.head.mockResolvedValue({ customMetadata: env.R2_BUCKET.put.mock.calls[0][2].customMetadata });
+
+      await worker.fetch(createHttpRequest(createValidRequest()), env as any, ctx as any);
+      await ctx.waitUntil.mock.calls[1][0];
+
+      expect(env.R2_BUCKET.head).toHaveBeenCalledWith("test/artifact.html");
+      expect(env.AI.run).toHaveBeenCalledOnce();
+      expect(env.R2_BUCKET.put).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      // The original report is sent again, attempt id included, so its tokens are not charged twice
+      expect(mockFetch.mock.calls[1][1].body).toBe(mockFetch.mock.calls[0][1].body);
+      expect(env.R2_BUCKET.put.mock.calls[0][2].customMetadata.attempt_id).toBe(ATTEMPT_ID);
+    });
+
+    it("should regenerate when the stored artifact came from a different prompt", async () => {
+      env.AI.run.mockResolvedValue({ response: "<h1>Hi</h1>" });
+      env.R2_BUCKET.put.mockResolvedValue({});
+      env.R2_BUCKET.head.mockResolvedValue({
+        customMetadata: { artifact_id: "test-artifact", prompt_hash: "0".repeat(64), report: "{}" },
+      });
+      env.ORCHESTRATOR.idFromString.mockReturnValue("mock-id");
+      env.ORCHESTRATOR.get.mockReturnValue({ fetch: vi.fn().mockResolvedValue(new Response()) });
+
+      await worker.fetch(createHttpRequest(createValidRequest()), env as any, ctx as any);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      expect(env.AI.run).toHaveBeenCalledOnce();
+      expect(env.R2_BUCKET.put).toHaveBeenCalledOnce();
+    });
+
+    it("should report a failure with a reason code when no artifact can be recovered", async () => {
+      const request = createHttpRequest(createValidRequest({ output_format: "self_contained_html" }));
+
+      env.AI.run.mockResolvedValue({ response: "I'm sorry, I can't do that.", usage: { prompt_tokens: 5, completion_tokens: 9 } });
+      const mockFetch = vi.fn().mockResolvedValue(new Response());
+      env.ORCHESTRATOR.idFromString.mockReturnValue("mock-id");
+      env.ORCHESTRATOR.get.mockReturnValue({ fetch: mockFetch });
+
+      await worker.fetch(request, env as any, ctx as any);
+      await ctx.waitUntil.mock.calls[0][0];
+
+      expect(env.R2_BUCKET.put).not.toHaveBeenCalled();
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({
+        status: "FAILED",
+        r2_path: null,
+        cost_metrics: { prompt_tokens: 5, completion_tokens: 9 },
+        failure_reason: "NO_HTML_DOCUMENT",
+      });
+    });
+
     it("should handle AI response as string", async () => {
       const request = createHttpRequest(createValidRequest());
       
@@ -258,9 +439,11 @@ describe("Generator Worker", () => {
         expect.objectContaining({
           body: JSON.stringify({
             artifact_id: "test-artifact",
+            attempt_id: ATTEMPT_ID,
             r2_path: "test/artifact.html",
             status: "SUCCESS",
             cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         })
       );
@@ -290,9 +473,11 @@ describe("Generator Worker", () => {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             artifact_id: "fail-test",
+            attempt_id: ATTEMPT_ID,
             r2_path: null,
             status: "FAILED",
             cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         }
       );
@@ -323,9 +508,11 @@ describe("Generator Worker", () => {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             artifact_id: "r2-fail-test",
+            attempt_id: ATTEMPT_ID,
             r2_path: null,
             status: "FAILED",
-            cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+            cost_metrics: { prompt_tokens: 8, completion_tokens: 12 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         }
       );
@@ -366,9 +553,11 @@ describe("Generator Worker", () => {
         expect.objectContaining({
           body: JSON.stringify({
             artifact_id: "malformed-test",
+            attempt_id: ATTEMPT_ID,
             r2_path: null,
             status: "FAILED",
             cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         })
       );
@@ -1,6 +1,20 @@
-import { GenerateRequest, ReportGenerationRequest, CostMetrics, createLogger } from "@sral/shared";
-
-interface Env {
+import {
+  GenerateRequest,
+  ReportGenerationRequest,
+  CostMetrics,
+  LlmProviderEnv,
+  createLlmProvider,
+  createLogger,
+  createValidationErrorResponse,
+  parseRequestBody,
+  validateGenerateRequest,
+} from "@sral/shared";
+import { deliverReport, redeliverReports } from "./callback.js";
+import { extractArtifact } from "./extract.js";
+import { artifactMetadata, findPriorReport, hashGenerationRequest } from "./idempotency.js";
+import { ResolvedGeneration, resolveGenerationConfig } from "./models.js";
+
+interface Env extends LlmProviderEnv {
   AI: any;
   R2_BUCKET: R2Bucket;
   ORCHESTRATOR: DurableObjectNamespace;
@@ -14,27 +28,36 @@ export default {
       return new Response("Method not allowed", { status: 405 });
     }
 
-    try {
-      const payload = await request.json<GenerateRequest>();
-      
-      // Validate required fields
-      if (!payload.orchestrator_id || !payload.artifact_id || !payload.meta_prompt || !payload.output_r2_path) {
-        return new Response("Missing required fields", { status: 400 });
-      }
-
-      // Defer the long-running task and immediately respond
-      ctx.waitUntil(handleGeneration(payload, env));
-
-      return new Response(null, { status: 202 });
-    } catch (e) {
-      logger.error("Invalid request body", e instanceof Error ? e : new Error(String(e)));
-      return new Response("Invalid request body", { status: 400 });
+    const body = await parseRequestBody(request, validateGenerateRequest);
+    if (!body.valid) {
+      logger.warn("Invalid request body", { issues: body.errors });
+      return createValidationErrorResponse(body.errors);
+    }
+
+    const generation = resolveGenerationConfig(body.value.meta_prompt, body.value.generation_config);
+    if (!generation.valid) {
+      logger.warn("Generation config not allowed", { issues: generation.errors });
+      return createValidationErrorResponse(generation.errors);
     }
+
+    // Defer the long-running task and immediately respond
+    ctx.waitUntil(handleGeneration(body.value, generation.value, env));
+
+    return new Response(null, { status: 202 });
+  },
+
+  // Cron trigger: retry reports the orchestrator could not be reached for
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      redeliverReports(env, logger).then((summary) => {
+        logger.info("Redelivery finished", summary);
+      })
+    );
   },
 };
 
-async function handleGeneration(payload: GenerateRequest, env: Env) {
-  const { orchestrator_id, artifact_id, meta_prompt, output_r2_path } = payload;
+async function handleGeneration(payload: GenerateRequest, generation: ResolvedGeneration, env: Env) {
+  const { orchestrator_id, artifact_id, meta_prompt, output_r2_path, output_format } = payload;
   
   const logContext = { 
     projectId: orchestrator_id, 
@@ -42,101 +65,96 @@ async function handleGeneration(payload: GenerateRequest, env: Env) {
   };
   const contextLogger = createLogger("generator", logContext);
 
-  try {
-    // Get orchestrator stub for callback
-    const orchestratorId = env.ORCHESTRATOR.idFromString(orchestrator_id);
-    const orchestrator = env.ORCHESTRATOR.get(orchestratorId);
+  // A redelivered request for an artifact that is already written is answered with the original report
+  const promptHash = await hashGenerationRequest(generation.request);
+  const priorReport = await findPriorReport(env.R2_BUCKET, output_r2_path, artifact_id, promptHash);
+  if (priorReport) {
+    // The original attempt id goes with it, so the orchestrator does not charge the same tokens twice
+    contextLogger.info("Artifact already generated, re-reporting", { outputPath: output_r2_path, attemptId: priorReport.attempt_id });
+    if (await deliverReport(env, orchestrator_id, priorReport, contextLogger)) {
+      contextLogger.info("Result reported to orchestrator", { status: priorReport.status });
+    }
+    return;
+  }
 
+  let report: ReportGenerationRequest;
+  // Identifies this run's report however often it is delivered
+  const attemptId = crypto.randomUUID();
+  // Kept outside the try so a failure after the model call still reports what was spent, and on which model
+  let costMetrics: CostMetrics = { prompt_tokens: 0, completion_tokens: 0 };
+  let generationConfig = generation.effective;
+  try {
     contextLogger.info("Starting generation task", { 
       metaPromptLength: meta_prompt.length,
-      outputPath: output_r2_path 
-    });
-
-    // Call Workers AI
-    const aiResponse = await env.AI.run("@cf/meta/llama-3-8b-instruct", {
-      prompt: meta_prompt,
+      outputPath: output_r2_path,
+      model: generation.request.model,
     });
 
-    // Extract content and cost metrics
-    let generatedContent: string;
-    let costMetrics: CostMetrics = { prompt_tokens: 0, completion_tokens: 0 };
-
-    if (typeof aiResponse === "string") {
-      generatedContent = aiResponse;
-    } else if (aiResponse && typeof aiResponse === "object") {
-      generatedContent = aiResponse.response || String(aiResponse);
-      // Extract cost metrics if available
-      if (aiResponse.usage) {
-        costMetrics = {
-          prompt_tokens: aiResponse.usage.prompt_tokens || 0,
-          completion_tokens: aiResponse.usage.completion_tokens || 0,
-        };
-      }
-    } else {
-      throw new Error("Unexpected AI response format");
+    // Call the configured model provider
+    const completion = await createLlmProvider(env).complete(generation.request);
+    if (!completion.ok) {
+      contextLogger.warn("Model call failed", { kind: completion.error.kind, retryable: completion.error.retryable });
+      throw new Error(completion.error.message);
     }
+    costMetrics = completion.value.usage;
+    // A provider configured with its own model (LLM_MODEL) runs that one instead of the requested model
+    generationConfig = { ...generation.effective, model: completion.value.model };
 
     contextLogger.info("AI generation completed", {
-      contentLength: generatedContent.length,
+      contentLength: completion.value.text.length,
       promptTokens: costMetrics.prompt_tokens,
       completionTokens: costMetrics.completion_tokens,
     });
 
-    // Write artifact to R2
-    await env.R2_BUCKET.put(output_r2_path, generatedContent, {
-      httpMetadata: {
-        contentType: "text/html",
-      },
-    });
-
-    contextLogger.info("Artifact written to R2", { path: output_r2_path });
-
-    // Report success back to Orchestrator
-    const reportPayload: ReportGenerationRequest = {
-      artifact_id,
-      r2_path: output_r2_path,
-      status: "SUCCESS",
-      cost_metrics: costMetrics,
-    };
+    // Strip prose and code fences; the tokens were spent either way, so report them with the failure
+    const extracted = extractArtifact(completion.value.text, output_format);
+    if (!extracted.ok) {
+      contextLogger.warn("No valid artifact in model output", { ...extracted.error, outputFormat: output_format });
 
-    await orchestrator.fetch("https://orchestrator.internal/report/generation", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(reportPayload),
-    });
-
-    contextLogger.info("Success reported to orchestrator");
-
-  } catch (err) {
-    contextLogger.error("Generation failed", err instanceof Error ? err : new Error(String(err)));
-
-    try {
-      // Get orchestrator stub for error callback
-      const orchestratorId = env.ORCHESTRATOR.idFromString(orchestrator_id);
-      const orchestrator = env.ORCHESTRATOR.get(orchestratorId);
-
-      // Report failure back to Orchestrator
-      const errorPayload: ReportGenerationRequest = {
+      report = {
         artifact_id,
+        attempt_id: attemptId,
         r2_path: null,
         status: "FAILED",
-        cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+        cost_metrics: costMetrics,
+        generation_config: generationConfig,
+        failure_reason: extracted.error.reason,
+      };
+    } else {
+      report = {
+        artifact_id,
+        attempt_id: attemptId,
+        r2_path: output_r2_path,
+        status: "SUCCESS",
+        cost_metrics: costMetrics,
+        generation_config: generationConfig,
       };
 
-      await orchestrator.fetch("https://orchestrator.internal/report/generation", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
+      // Write artifact to R2, tagged so a repeated request can reuse it
+      await env.R2_BUCKET.put(output_r2_path, extracted.value.content, {
+        httpMetadata: {
+          contentType: extracted.value.contentType,
         },
-        body: JSON.stringify(errorPayload),
+        customMetadata: artifactMetadata(promptHash, report),
       });
 
-      contextLogger.info("Failure reported to orchestrator");
-    } catch (callbackErr) {
-      contextLogger.error("Failed to report failure to orchestrator", 
-        callbackErr instanceof Error ? callbackErr : new Error(String(callbackErr)));
+      contextLogger.info("Artifact written to R2", { path: output_r2_path });
     }
+  } catch (err) {
+    contextLogger.error("Generation failed", err instanceof Error ? err : new Error(String(err)));
+
+    report = {
+      artifact_id,
+      attempt_id: attemptId,
+      r2_path: null,
+      status: "FAILED",
+      cost_metrics: costMetrics,
+      generation_config: generationConfig,
+    };
+  }
+
+  // Report back to Orchestrator; undeliverable reports are kept for redelivery
+  if (await deliverReport(env, orchestrator_id, report, contextLogger)) {
+    contextLogger.info("Result reported to orchestrator", { status: report.status });
   }
-}
\ No newline at end of file
+}
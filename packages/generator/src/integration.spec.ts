@@ -2,19 +2,23 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import worker from "./index";
 import type { GenerateRequest } from "@sral/shared";
 
+const ATTEMPT_ID = "00000000-0000-4000-8000-000000000001";
+
 describe("Generator Integration Tests", () => {
   let mockEnv: any;
   let mockCtx: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.spyOn(crypto, "randomUUID").mockReturnValue(ATTEMPT_ID);
     
     mockEnv = {
       AI: {
         run: vi.fn()
       },
       R2_BUCKET: {
-        put: vi.fn()
+        put: vi.fn(),
+        head: vi.fn()
       },
       ORCHESTRATOR: {
         idFromString: vi.fn(),
@@ -138,7 +142,7 @@ describe("Generator Integration Tests", () => {
       expect(mockEnv.R2_BUCKET.put).toHaveBeenCalledWith(
         "r2-test/output.html",
         testContent,
-        { httpMetadata: { contentType: "text/html" } }
+        expect.objectContaining({ httpMetadata: { contentType: "text/html" } })
       );
     });
 
@@ -182,9 +186,11 @@ describe("Generator Integration Tests", () => {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             artifact_id: "orchestrator-integration-test",
+            attempt_id: ATTEMPT_ID,
             r2_path: "orchestrator-test.html",
             status: "SUCCESS",
             cost_metrics: { prompt_tokens: 15, completion_tokens: 25 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         }
       );
@@ -236,7 +242,7 @@ describe("Generator Integration Tests", () => {
       expect(mockEnv.R2_BUCKET.put).toHaveBeenCalledWith(
         testScenario.r2Path,
         expectedAiResponse.response,
-        { httpMetadata: { contentType: "text/html" } }
+        expect.objectContaining({ httpMetadata: { contentType: "text/html" } })
       );
 
       expect(mockOrchestratorFetch).toHaveBeenCalledWith(
@@ -246,9 +252,11 @@ describe("Generator Integration Tests", () => {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             artifact_id: testScenario.artifactId,
+            attempt_id: ATTEMPT_ID,
             r2_path: testScenario.r2Path,
             status: "SUCCESS",
             cost_metrics: expectedAiResponse.usage,
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         }
       );
@@ -290,9 +298,11 @@ describe("Generator Integration Tests", () => {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             artifact_id: "error-propagation-test",
+            attempt_id: ATTEMPT_ID,
             r2_path: null,
             status: "FAILED",
-            cost_metrics: { prompt_tokens: 0, completion_tokens: 0 },
+            cost_metrics: { prompt_tokens: 10, completion_tokens: 20 },
+            generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
           }),
         }
       );
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_MODEL, resolveGenerationConfig } from "./models";
+
+describe("resolveGenerationConfig", () => {
+  it("sends the meta-prompt as a plain prompt with the default model", () => {
+    expect(resolveGenerationConfig("Build it.")).toEqual({
+      valid: true,
+      value: { request: { model: DEFAULT_MODEL, prompt: "Build it." }, effective: { model: DEFAULT_MODEL, chat_messages: 0 } },
+    });
+  });
+
+  it("appends the meta-prompt to the chat messages as the last user message", () => {
+    const result = resolveGenerationConfig("Build it.", {
+      max_tokens: 2048,
+      system: "You write HTML.",
+      messages: [{ role: "user", content: "Use tables." }, { role: "assistant", content: "Understood." }],
+    });
+
+    expect(result.valid && result.value.request).toEqual({
+      model: DEFAULT_MODEL,
+      messages: [
+        { role: "system", content: "You write HTML." },
+        { role: "user", content: "Use tables." },
+        { role: "assistant", content: "Understood." },
+        { role: "user", content: "Build it." },
+      ],
+      max_tokens: 2048,
+    });
+    expect(result.valid && result.value.effective).toEqual({ model: DEFAULT_MODEL, max_tokens: 2048, chat_messages: 3 });
+  });
+
+  it("rejects models outside the allowlist, including inherited object keys", () => {
+    for (const model of ["@cf/unknown/model", "constructor"]) {
+      const result = resolveGenerationConfig("Build it.", { model, max_tokens: 999999 });
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.errors.map((issue) => issue.path)).toEqual(["generation_config.model"]);
+    }
+  });
+
+  it("rejects settings above the model limits", () => {
+    expect(resolveGenerationConfig("Build it.", { max_tokens: 100000, temperature: 6 })).toEqual({
+      valid: false,
+      errors: [
+        { path: "generation_config.max_tokens", message: `must be <= 4096 for ${DEFAULT_MODEL}, got 100000` },
+        { path: "generation_config.temperature", message: `must be <= 5 for ${DEFAULT_MODEL}, got 6` },
+      ],
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { ChatMessage, EffectiveGenerationConfig, GenerationConfig, LlmRequest, ValidationIssue, ValidationResult } from "@sral/shared";
+
+export const DEFAULT_MODEL = "@cf/meta/llama-3-8b-instruct";
+
+interface ModelLimits {
+  maxTokens: number;
+  maxTemperature: number;
+}
+
+// Text generation models the generator may call, with the largest settings each accepts.
+export const MODEL_ALLOWLIST: ReadonlyMap<string, ModelLimits> = new Map([
+  ["@cf/meta/llama-3-8b-instruct", { maxTokens: 4096, maxTemperature: 5 }],
+  ["@cf/meta/llama-3.1-8b-instruct", { maxTokens: 8192, maxTemperature: 5 }],
+  ["@cf/meta/llama-3.3-70b-instruct-fp8-fast", { maxTokens: 8192, maxTemperature: 5 }],
+  ["@cf/mistral/mistral-7b-instruct-v0.1", { maxTokens: 4096, maxTemperature: 5 }],
+]);
+
+export interface ResolvedGeneration {
+  request: LlmRequest;
+  effective: EffectiveGenerationConfig;
+}
+
+/**
+ * Checks a request's generation config against the model allowlist and builds
+ * the model request. The meta-prompt is sent as a plain prompt unless a system
+ * message or chat messages are given, in which case it becomes the final user
+ * message of the conversation.
+ */
+export function resolveGenerationConfig(metaPrompt: string, config: GenerationConfig = {}): ValidationResult<ResolvedGeneration> {
+  const issues: ValidationIssue[] = [];
+  const model = config.model ?? DEFAULT_MODEL;
+  const limits = MODEL_ALLOWLIST.get(model);
+
+  if (!limits) {
+    issues.push({ path: "generation_config.model", message: `must be one of ${[...MODEL_ALLOWLIST.keys()].join(", ")}` });
+  } else {
+    if (config.max_tokens !== undefined && config.max_tokens > limits.maxTokens) {
+      issues.push({ path: "generation_config.max_tokens", message: `must be <= ${limits.maxTokens} for ${model}, got ${config.max_tokens}` });
+    }
+    if (config.temperature !== undefined && config.temperature > limits.maxTemperature) {
+      issues.push({
+        path: "generation_config.temperature",
+        message: `must be <= ${limits.maxTemperature} for ${model}, got ${config.temperature}`,
+      });
+    }
+  }
+  if (issues.length > 0) {
+    return { valid: false, errors: issues };
+  }
+
+  const sampling: Omit<EffectiveGenerationConfig, "model" | "chat_messages"> = {};
+  for (const key of ["temperature", "top_p", "max_tokens", "seed"] as const) {
+    if (config[key] !== undefined) {
+      sampling[key] = config[key];
+    }
+  }
+
+  const conversation: ChatMessage[] = [
+    ...(config.system ? [{ role: "system" as const, content: config.system }] : []),
+    ...(config.messages ?? []),
+  ];
+  const request: LlmRequest =
+    conversation.length > 0
+      ? { model, messages: [...conversation, { role: "user", content: metaPrompt }], ...sampling }
+      : { model, prompt: metaPrompt, ...sampling };
+
+  return { valid: true, value: { request, effective: { model, ...sampling, chat_messages: conversation.length } } };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_MAX_COMPLETION_TOKENS, estimateGenerationCost, releaseReservation, reserveBudget } from "./budget";
+import type { DispatchedJob, OrchestratorState } from "@sral/shared";
+
+const MODEL = "@cf/meta/llama-3-8b-instruct";
+
+const createState = (maxCost?: number, estimatedCostUSD = 0): OrchestratorState => ({
+  projectId: "proj",
+  status: "GENERATING",
+  currentWave: 1,
+  config: { specPath: "spec.md", scorecardPath: "scorecard.json" },
+  terminationConditions: { maxCost },
+  diversity: {},
+  jobTimeouts: { generation_timeout_seconds: 300, analysis_timeout_seconds: 900, max_retries: 2 },
+  pricing: {},
+  costTracker: { totalTokens: 0, estimatedCostUSD, reservedUSD: 0 },
+  latest_learnings_md: "",
+});
+
+describe("estimateGenerationCost", () => {
+  it("prices the prompt and the longest allowed completion", () => {
+    const pricing = { [MODEL]: { prompt_usd_per_million: 1, completion_usd_per_million: 2 } };
+    expect(estimateGenerationCost(1000, { model: MODEL, max_tokens: 500 }, pricing)).toBeCloseTo(0.002);
+    expect(estimateGenerationCost(0, { model: MODEL }, pricing)).toBeCloseTo((DEFAULT_MAX_COMPLETION_TOKENS * 2) / 1_000_000);
+  });
+});
+
+describe("reserveBudget", () => {
+  it("reserves while spend and reservations stay within maxCost", () => {
+    const state = createState(1, 0.5);
+    expect(reserveBudget(state, 0.3)).toBe(true);
+    expect(reserveBudget(state, 0.3)).toBe(false);
+    expect(state.costTracker.reservedUSD).toBeCloseTo(0.3);
+  });
+
+  it("always reserves without maxCost", () => {
+    const state = createState(undefined, 100);
+    expect(reserveBudget(state, 5)).toBe(true);
+  });
+});
+
+describe("releaseReservation", () => {
+  it("returns the job's reservation once", () => {
+    const state = createState(1);
+    state.costTracker.reservedUSD = 0.4;
+    const job = { reserved_usd: 0.3 } as DispatchedJob;
+
+    releaseReservation(state, job);
+    releaseReservation(state, job);
+
+    expect(state.costTracker.reservedUSD).toBeCloseTo(0.1);
+    expect(job.reserved_usd).toBeUndefined();
+  });
+});
@@ -0,0 +1,35 @@
+import { DispatchedJob, GenerationConfig, ModelPricing, OrchestratorState, priceUsage } from "@sral/shared";
+
+// Completion length assumed when a strategy sets no max_tokens: the most the default generator model allows.
+export const DEFAULT_MAX_COMPLETION_TOKENS = 4096;
+
+/**
+ * Upper bound on the cost of a generation: the whole prompt plus the longest
+ * completion it may produce. Without a model in the config it is priced at the
+ * fallback rates, which are never below the generator's default model.
+ */
+export function estimateGenerationCost(promptTokens: number, config: GenerationConfig, pricing: Record<string, ModelPricing>): number {
+  const usage = { prompt_tokens: promptTokens, completion_tokens: config.max_tokens ?? DEFAULT_MAX_COMPLETION_TOKENS };
+  return priceUsage(config.model, usage, pricing);
+}
+
+/**
+ * Holds `costUSD` of the run's budget for a job about to be dispatched.
+ * Returns false, reserving nothing, when spend plus outstanding reservations
+ * would then exceed maxCost. Runs without maxCost can always reserve.
+ */
+export function reserveBudget(state: OrchestratorState, costUSD: number): boolean {
+  const { maxCost } = state.terminationConditions;
+  const committed = state.costTracker.estimatedCostUSD + state.costTracker.reservedUSD;
+  if (maxCost !== undefined && committed + costUSD > maxCost) {
+    return false;
+  }
+  state.costTracker.reservedUSD += costUSD;
+  return true;
+}
+
+// Returns a job's reservation to the budget once its actual cost is known or it will never report.
+export function releaseReservation(state: OrchestratorState, job: DispatchedJob): void {
+  state.costTracker.reservedUSD = Math.max(0, state.costTracker.reservedUSD - (job.reserved_usd ?? 0));
+  delete job.reserved_usd;
+}
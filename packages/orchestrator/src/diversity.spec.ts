@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_DIVERSITY, MUTATION_DIRECTIVES, planStrategies } from "./diversity";
+
+describe("planStrategies", () => {
+  it("cycles the default temperature ladder and leaves the first wave unmutated", () => {
+    const strategies = planStrategies(DEFAULT_DIVERSITY, 1, 4, null);
+
+    expect(strategies.map((strategy) => strategy.label)).toEqual([
+      "temperature 0.4",
+      "temperature 0.7",
+      "temperature 1",
+      "temperature 0.4",
+    ]);
+    expect(strategies.some((strategy) => strategy.mutation)).toBe(false);
+  });
+
+  it("combines ladders, personas and run-wide unique seeds", () => {
+    const config = { temperatures: [0.3, 0.9], top_p: [0.8], personas: ["Minimalist", "Playful", "Corporate"], seed: 10 };
+    const strategies = planStrategies(config, 2, 3, null);
+
+    expect(strategies).toEqual([
+      { label: "temperature 0.3, top_p 0.8, seed 13, persona 1", generation_config: { temperature: 0.3, top_p: 0.8, seed: 13 }, persona: "Minimalist" },
+      { label: "temperature 0.9, top_p 0.8, seed 14, persona 2", generation_config: { temperature: 0.9, top_p: 0.8, seed: 14 }, persona: "Playful" },
+      { label: "temperature 0.3, top_p 0.8, seed 15, persona 3", generation_config: { temperature: 0.3, top_p: 0.8, seed: 15 }, persona: "Corporate" },
+    ]);
+  });
+
+  it("mutates the best prior prompt in the last slot of the wave", () => {
+    const strategies = planStrategies({ personas: ["Minimalist"], mutate_best_prompt: true }, 2, 2, "wave-1-artifact-3");
+
+    expect(strategies[0]).toEqual({ label: "persona 1", generation_config: {}, persona: "Minimalist" });
+    expect(strategies[1]).toEqual({
+      label: "mutation of wave-1-artifact-3",
+      generation_config: {},
+      mutation: { parent_artifact_id: "wave-1-artifact-3", directive: MUTATION_DIRECTIVES[1] },
+    });
+  });
+
+  it("never mutates when disabled or when the wave has a single artifact", () => {
+    expect(planStrategies({ mutate_best_prompt: false }, 2, 3, "a-1").some((strategy) => strategy.mutation)).toBe(false);
+    expect(planStrategies({ mutate_best_prompt: true }, 2, 1, "a-1")).toEqual([{ label: "default sampling", generation_config: {} }]);
+  });
+});
@@ -0,0 +1,71 @@
+import { DiversityConfig, GenerationConfig, GenerationStrategy } from "@sral/shared";
+
+// Applied when a run does not override them, so the artifacts of a wave never share identical sampling.
+export const DEFAULT_DIVERSITY: DiversityConfig = {
+  temperatures: [0.4, 0.7, 1.0],
+  mutate_best_prompt: true,
+};
+
+// Cycled across waves; each asks for a departure from the parent prompt in one respect.
+export const MUTATION_DIRECTIVES = [
+  "Keep the requirements above, but take a noticeably different approach to layout and visual design.",
+  "Keep the requirements above, but simplify: fewer features, implemented with more polish.",
+  "Keep the requirements above, but focus on robustness: handle empty, invalid and extreme inputs explicitly.",
+  "Keep the requirements above, but focus on accessibility: semantic markup, labels and full keyboard support.",
+];
+
+function cycle<T>(values: T[] | undefined, index: number): T | undefined {
+  return values && values.length > 0 ? values[index % values.length] : undefined;
+}
+
+function describe(strategy: Omit<GenerationStrategy, "label">, personaNumber: number | undefined): string {
+  const { temperature, top_p, seed } = strategy.generation_config;
+  const parts: string[] = [];
+  if (temperature !== undefined) parts.push(`temperature ${temperature}`);
+  if (top_p !== undefined) parts.push(`top_p ${top_p}`);
+  if (seed !== undefined) parts.push(`seed ${seed}`);
+  if (personaNumber !== undefined) parts.push(`persona ${personaNumber}`);
+  if (strategy.mutation) parts.push(`mutation of ${strategy.mutation.parent_artifact_id}`);
+  return parts.length > 0 ? parts.join(", ") : "default sampling";
+}
+
+/**
+ * Assigns a strategy to each artifact of a wave. Temperature and top_p ladders
+ * and personas are cycled by position in the wave, seeds are unique across the
+ * run, and when a scored prior artifact exists the last artifact of a
+ * multi-artifact wave varies that artifact's prompt instead of taking a persona.
+ */
+export function planStrategies(
+  config: DiversityConfig,
+  waveNumber: number,
+  waveSize: number,
+  bestPriorArtifactId: string | null
+): GenerationStrategy[] {
+  const mutateLast = Boolean(config.mutate_best_prompt && bestPriorArtifactId && waveSize > 1);
+
+  return Array.from({ length: waveSize }, (_, index) => {
+    const generation_config: GenerationConfig = {};
+    const temperature = cycle(config.temperatures, index);
+    const topP = cycle(config.top_p, index);
+    if (temperature !== undefined) generation_config.temperature = temperature;
+    if (topP !== undefined) generation_config.top_p = topP;
+    if (config.seed !== undefined) generation_config.seed = config.seed + (waveNumber - 1) * waveSize + index;
+
+    const strategy: Omit<GenerationStrategy, "label"> = { generation_config };
+    let personaNumber: number | undefined;
+    if (mutateLast && index === waveSize - 1) {
+      strategy.mutation = {
+        parent_artifact_id: bestPriorArtifactId!,
+        directive: MUTATION_DIRECTIVES[(waveNumber - 1) % MUTATION_DIRECTIVES.length],
+      };
+    } else {
+      const persona = cycle(config.personas, index);
+      if (persona !== undefined) {
+        strategy.persona = persona;
+        personaNumber = (index % config.personas!.length) + 1;
+      }
+    }
+
+    return { label: describe(strategy, personaNumber), ...strategy };
+  });
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { MAX_GUIDANCE_TOKENS, activeGuidance, checkGuidance } from "./guidance";
+import type { GuidanceOverride } from "@sral/shared";
+
+const override = (id: string, scope: GuidanceOverride["scope"], fromWave: number): GuidanceOverride => ({
+  id,
+  r2_path: `guidance/${id}.md`,
+  content: `Guidance ${id}`,
+  scope,
+  from_wave: fromWave,
+  requested_by: "ana",
+  requested_at: 0,
+});
+
+describe("checkGuidance", () => {
+  it("trims accepted guidance", () => {
+    expect(checkGuidance("\n- Use a dark theme\n", "g.md")).toEqual({ valid: true, value: "- Use a dark theme" });
+  });
+
+  it("rejects empty, binary and oversized guidance", () => {
+    expect(checkGuidance("  \n", "g.md")).toEqual({
+      valid: false,
+      errors: [{ path: "human_guidance_r2_path", message: "g.md is empty" }],
+    });
+    expect(checkGuidance("a\u0000b", "g.md").valid).toBe(false);
+    expect(checkGuidance("x".repeat(MAX_GUIDANCE_TOKENS * 4 + 4), "g.md")).toEqual({
+      valid: false,
+      errors: [{ path: "human_guidance_r2_path", message: `g.md must be at most ${MAX_GUIDANCE_TOKENS} tokens, got about 1001` }],
+    });
+  });
+});
+
+describe("activeGuidance", () => {
+  const overrides = [override("1", "run", 2), override("2", "wave", 3), override("3", "run", 4), override("4", "wave", 4)];
+
+  it("keeps wave-scoped guidance to its wave", () => {
+    expect(activeGuidance(overrides, 1)).toEqual([]);
+    expect(activeGuidance(overrides, 3).map((active) => active.id)).toEqual(["1", "2"]);
+  });
+
+  it("lets the latest run-scoped guidance replace earlier ones", () => {
+    expect(activeGuidance(overrides, 4).map((active) => active.id)).toEqual(["3", "4"]);
+    expect(activeGuidance(overrides, 5).map((active) => active.id)).toEqual(["3"]);
+  });
+});
@@ -0,0 +1,37 @@
+import { GuidanceOverride, ValidationResult } from "@sral/shared";
+import { estimateTokens } from "./prompt.js";
+
+// Guidance is placed ahead of learnings and exemplars, so it must leave them room in the prompt budget.
+export const MAX_GUIDANCE_TOKENS = 1000;
+
+/** Checks guidance Markdown loaded from `path` before it may steer any prompt. */
+export function checkGuidance(content: string, path: string): ValidationResult<string> {
+  const guidance = content.trim();
+  if (guidance === "") {
+    return { valid: false, errors: [{ path: "human_guidance_r2_path", message: `${path} is empty` }] };
+  }
+  if (guidance.includes("\u0000")) {
+    return { valid: false, errors: [{ path: "human_guidance_r2_path", message: `${path} is not a text file` }] };
+  }
+  const tokens = estimateTokens(guidance);
+  if (tokens > MAX_GUIDANCE_TOKENS) {
+    return {
+      valid: false,
+      errors: [{ path: "human_guidance_r2_path", message: `${path} must be at most ${MAX_GUIDANCE_TOKENS} tokens, got about ${tokens}` }],
+    };
+  }
+  return { valid: true, value: guidance };
+}
+
+/**
+ * The overrides that guide a wave, oldest first: the latest run-scoped
+ * override in effect, which replaces earlier ones, and any override scoped to
+ * that wave alone.
+ */
+export function activeGuidance(overrides: GuidanceOverride[], waveNumber: number): GuidanceOverride[] {
+  const applicable = overrides.filter((override) =>
+    override.scope === "run" ? override.from_wave <= waveNumber : override.from_wave === waveNumber
+  );
+  const latestRun = applicable.filter((override) => override.scope === "run").at(-1);
+  return applicable.filter((override) => override.scope === "wave" || override === latestRun);
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import worker from "./index";
+
+const PROJECT_ID = "b".repeat(64);
+
+const createMockEnv = () => {
+  const stub = {
+    fetch: vi.fn(async () => new Response(JSON.stringify({ status: "GENERATING" }), { status: 202 })),
+  };
+  return {
+    stub,
+    ORCHESTRATOR: {
+      newUniqueId: vi.fn(() => ({ toString: () => PROJECT_ID })),
+      idFromString: vi.fn((id: string) => ({ toString: () => id })),
+      get: vi.fn(() => stub),
+    },
+  };
+};
+
+const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() };
+
+describe("Orchestrator Worker", () => {
+  let env: ReturnType<typeof createMockEnv>;
+
+  beforeEach(() => {
+    env = createMockEnv();
+  });
+
+  it("starts a project in a new Durable Object and returns its status endpoint", async () => {
+    const request = new Request("https://sral.example.com/start", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ spec_content: "c3BlYw==", scorecard_content: "e30=" }),
+    });
+
+    const response = await worker.fetch(request, env as any, ctx as any);
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({
+      message: "Project started",
+      projectId: PROJECT_ID,
+      status_endpoint: `https://sral.example.com/projects/${PROJECT_ID}/status`,
+    });
+    expect(env.stub.fetch).toHaveBeenCalledWith("https://orchestrator.internal/start", expect.objectContaining({
+      method: "POST",
+      body: JSON.stringify({ spec_content: "c3BlYw==", scorecard_content: "e30=" }),
+    }));
+  });
+
+  it("passes through errors raised by the Durable Object on start", async () => {
+    env.stub.fetch.mockResolvedValueOnce(new Response(JSON.stringify({ error: "bad" }), { status: 400 }));
+
+    const response = await worker.fetch(
+      new Request("https://sral.example.com/start", { method: "POST", body: "{}" }),
+      env as any,
+      ctx as any
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects non-POST requests to /start", async () => {
+    const response = await worker.fetch(new Request("https://sral.example.com/start"), env as any, ctx as any);
+    expect(response.status).toBe(405);
+  });
+
+  it("forwards project routes to the owning Durable Object", async () => {
+    env.stub.fetch.mockResolvedValueOnce(new Response("{}", { status: 200 }));
+
+    const response = await worker.fetch(
+      new Request(`https://sral.example.com/projects/${PROJECT_ID}/status?wave=2`),
+      env as any,
+      ctx as any
+    );
+
+    expect(response.status).toBe(200);
+    expect(env.ORCHESTRATOR.idFromString).toHaveBeenCalledWith(PROJECT_ID);
+    const forwarded: Request = env.stub.fetch.mock.calls[0][0];
+    expect(forwarded.url).toBe("https://orchestrator.internal/status?wave=2");
+  });
+
+  it("does not expose the report callbacks of a project", async () => {
+    for (const path of ["/report/generation", "/report/analysis", "/start"]) {
+      const response = await worker.fetch(
+        new Request(`https://sral.example.com/projects/${PROJECT_ID}${path}`, { method: "POST", body: "{}" }),
+        env as any,
+        ctx as any
+      );
+      expect(response.status).toBe(404);
+    }
+    expect(env.stub.fetch).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for unknown routes", async () => {
+    const response = await worker.fetch(new Request("https://sral.example.com/elsewhere"), env as any, ctx as any);
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,70 @@
+import { StartResponse, createLogger } from "@sral/shared";
+import { Env } from "./orchestrator.js";
+
+export { Orchestrator } from "./orchestrator.js";
+
+const logger = createLogger("orchestrator");
+
+// Project routes are forwarded to the Durable Object that owns the run.
+const PROJECT_ROUTE = /^\/projects\/([0-9a-f]{64})(\/.*)$/;
+
+// Only the routes meant for clients; the report callbacks stay reachable by the workers alone.
+const CLIENT_ROUTES = new Set(["GET /status", "GET /review", "POST /review", "POST /override"]);
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const url = new URL(request.url);
+
+    try {
+      if (url.pathname === "/start") {
+        if (request.method !== "POST") {
+          return new Response("Method not allowed", { status: 405 });
+        }
+
+        const id = env.ORCHESTRATOR.newUniqueId();
+        const projectId = id.toString();
+        const stub = env.ORCHESTRATOR.get(id);
+
+        const startResponse = await stub.fetch("https://orchestrator.internal/start", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: await request.text(),
+        });
+        if (!startResponse.ok) {
+          return startResponse;
+        }
+
+        const body: StartResponse = {
+          message: "Project started",
+          projectId,
+          status_endpoint: `${url.origin}/projects/${projectId}/status`,
+        };
+
+        logger.info("Project started", { projectId });
+
+        return new Response(JSON.stringify(body), {
+          status: 202,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const match = url.pathname.match(PROJECT_ROUTE);
+      if (match) {
+        const [, projectId, path] = match;
+        if (!CLIENT_ROUTES.has(`${request.method} ${path}`)) {
+          return new Response("Not found", { status: 404 });
+        }
+        const stub = env.ORCHESTRATOR.get(env.ORCHESTRATOR.idFromString(projectId));
+        return await stub.fetch(new Request(`https://orchestrator.internal${path}${url.search}`, request));
+      }
+
+      return new Response("Not found", { status: 404 });
+    } catch (e) {
+      logger.error("Request failed", e instanceof Error ? e : new Error(String(e)));
+      return new Response(
+        JSON.stringify({ error: "Orchestrator request failed" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  },
+};
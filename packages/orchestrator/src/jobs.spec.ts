@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_JOB_TIMEOUTS, jobDeadline, nextDeadline, overdueJobs } from "./jobs";
+import type { DispatchedJob } from "@sral/shared";
+
+const job = (id: string, deadline: number, overrides: Partial<DispatchedJob> = {}): DispatchedJob => ({
+  job_id: id,
+  artifact_id: id,
+  wave_number: 1,
+  type: "generation",
+  status: "pending",
+  retries: 0,
+  created_at: 0,
+  deadline_at: deadline,
+  ...overrides,
+});
+
+describe("jobDeadline", () => {
+  it("uses the timeout of the job type", () => {
+    expect(jobDeadline("generation", DEFAULT_JOB_TIMEOUTS, 1000)).toBe(1000 + 300_000);
+    expect(jobDeadline("analysis", DEFAULT_JOB_TIMEOUTS, 1000)).toBe(1000 + 900_000);
+  });
+});
+
+describe("overdueJobs", () => {
+  it("retries pending jobs past their deadline until the retries run out", () => {
+    const jobs = [
+      job("early", 50),
+      job("exhausted", 100, { retries: 2 }),
+      job("later", 200),
+      job("done", 50, { status: "complete" }),
+    ];
+
+    expect(overdueJobs(jobs, DEFAULT_JOB_TIMEOUTS, 100).map(({ job, action }) => [job.job_id, action])).toEqual([
+      ["early", "retry"],
+      ["exhausted", "time_out"],
+    ]);
+  });
+});
+
+describe("nextDeadline", () => {
+  it("returns the earliest deadline of a pending job", () => {
+    expect(nextDeadline([job("a", 300), job("b", 200), job("c", 100, { status: "timed_out" })])).toBe(200);
+    expect(nextDeadline([job("a", 300, { status: "complete" })])).toBeNull();
+  });
+});
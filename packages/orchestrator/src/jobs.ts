@@ -0,0 +1,35 @@
+import { DispatchedJob, JobTimeoutConfig } from "@sral/shared";
+
+// Applied when a run does not override them; analysis covers a whole wave, so it gets longer.
+export const DEFAULT_JOB_TIMEOUTS: Required<JobTimeoutConfig> = {
+  generation_timeout_seconds: 300,
+  analysis_timeout_seconds: 900,
+  max_retries: 2,
+};
+
+export type JobAction = "retry" | "time_out";
+
+export function jobDeadline(type: DispatchedJob["type"], timeouts: Required<JobTimeoutConfig>, now: number): number {
+  const seconds = type === "generation" ? timeouts.generation_timeout_seconds : timeouts.analysis_timeout_seconds;
+  return now + seconds * 1000;
+}
+
+/**
+ * Pending jobs whose deadline has passed, each with what to do about it: send
+ * it again while retries remain, otherwise give up on it.
+ */
+export function overdueJobs(
+  jobs: DispatchedJob[],
+  timeouts: Required<JobTimeoutConfig>,
+  now: number
+): Array<{ job: DispatchedJob; action: JobAction }> {
+  return jobs
+    .filter((job) => job.status === "pending" && job.deadline_at <= now)
+    .map((job) => ({ job, action: job.retries < timeouts.max_retries ? "retry" : "time_out" }));
+}
+
+// When the alarm should next fire, or null when no job is waiting on a reply.
+export function nextDeadline(jobs: DispatchedJob[]): number | null {
+  const deadlines = jobs.filter((job) => job.status === "pending").map((job) => job.deadline_at);
+  return deadlines.length > 0 ? Math.min(...deadlines) : null;
+}
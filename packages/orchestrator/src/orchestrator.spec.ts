@@ -0,0 +1,948 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Orchestrator } from "./orchestrator";
+import type {
+  AnalyzeRequest,
+  ArtifactRecord,
+  DispatchedJob,
+  GenerateRequest,
+  OrchestratorState,
+  PromptRecord,
+  ReportGenerationRequest,
+  StartRequest,
+} from "@sral/shared";
+
+const PROJECT_ID = "a".repeat(64);
+
+const scorecard = {
+  tests: [
+    { type: "linter", weight: 0.4, config: {} },
+    { type: "llm_evaluation", weight: 0.6, config: { prompt: "Rate it" } },
+  ],
+};
+
+// In-memory stand-in for DurableObjectState
+const createMockState = () => {
+  const store = new Map<string, any>();
+  const pending: Promise<unknown>[] = [];
+  const alarm = { time: null as number | null };
+  return {
+    store,
+    pending,
+    alarm,
+    id: { toString: () => PROJECT_ID },
+    storage: {
+      get: vi.fn(async (key: string) => structuredClone(store.get(key))),
+      put: vi.fn(async (key: string, value: unknown) => {
+        store.set(key, structuredClone(value));
+      }),
+      list: vi.fn(async ({ prefix }: { prefix: string }) =>
+        new Map([...store].filter(([key]) => key.startsWith(prefix)).map(([k, v]) => [k, structuredClone(v)]))
+      ),
+      setAlarm: vi.fn(async (time: number) => {
+        alarm.time = time;
+      }),
+      deleteAlarm: vi.fn(async () => {
+        alarm.time = null;
+      }),
+    },
+    waitUntil: vi.fn((promise: Promise<unknown>) => {
+      pending.push(promise);
+    }),
+  };
+};
+
+const createMockEnv = () => {
+  const objects = new Map<string, string>();
+  return {
+    objects,
+    R2_BUCKET: {
+      put: vi.fn(async (key: string, value: string) => {
+        objects.set(key, value);
+      }),
+      get: vi.fn(async (key: string) => {
+        const value = objects.get(key);
+        return value === undefined
+          ? null
+          : { text: async () => value, json: async () => JSON.parse(value) };
+      }),
+    },
+    GENERATOR: {
+      fetch: vi.fn(async () => new Response(null, { status: 202 })),
+    },
+    EVALUATOR: {
+      fetch: vi.fn(async () => new Response(null, { status: 202 })),
+    },
+    ORCHESTRATOR: {},
+  };
+};
+
+const specMarkdown = `---
+title: Data table
+version: 1.0.0
+author: SRAL
+output_format: self_contained_html
+generator_type: stateless_worker
+generator_count_per_wave: 3
+---
+Build a searchable data table.`;
+
+const startRequest = (overrides: Partial<StartRequest> = {}): StartRequest => ({
+  spec_content: btoa(specMarkdown),
+  scorecard_content: btoa(JSON.stringify(scorecard)),
+  ...overrides,
+});
+
+const post = (path: string, body: unknown) =>
+  new Request(`https://orchestrator.internal${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+const generationReport = (artifactId: string, overrides: Partial<ReportGenerationRequest> = {}): ReportGenerationRequest => ({
+  artifact_id: artifactId,
+  attempt_id: `${artifactId}-attempt-1`,
+  r2_path: `projects/${PROJECT_ID}/wave-1/${artifactId}.html`,
+  status: "SUCCESS",
+  cost_metrics: { prompt_tokens: 10, completion_tokens: 20 },
+  ...overrides,
+});
+
+describe("Orchestrator Durable Object", () => {
+  let state: ReturnType<typeof createMockState>;
+  let env: ReturnType<typeof createMockEnv>;
+  let orchestrator: Orchestrator;
+
+  beforeEach(() => {
+    state = createMockState();
+    env = createMockEnv();
+    orchestrator = new Orchestrator(state as any, env as any);
+  });
+
+  const dispatchedRequests = (): GenerateRequest[] =>
+    env.GENERATOR.fetch.mock.calls.map((call: any[]) => JSON.parse(call[1].body));
+
+  describe("POST /start", () => {
+    it("persists spec, scorecard and initial state then dispatches the first wave", async () => {
+      const response = await orchestrator.fetch(post("/start", startRequest({
+        termination_conditions: { maxWaves: 2 },
+      })));
+
+      expect(response.status).toBe(202);
+      expect(env.objects.get(`projects/${PROJECT_ID}/spec.md`)).toContain("Build a searchable data table.");
+      expect(JSON.parse(env.objects.get(`projects/${PROJECT_ID}/scorecard.json`)!)).toEqual(scorecard);
+
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.projectId).toBe(PROJECT_ID);
+      expect(saved.status).toBe("GENERATING");
+      expect(saved.currentWave).toBe(1);
+      expect(saved.terminationConditions).toEqual({ maxWaves: 2 });
+      expect(saved.config.specPath).toBe(`projects/${PROJECT_ID}/spec.md`);
+
+      const requests = dispatchedRequests();
+      expect(requests).toHaveLength(3);
+      for (const request of requests) {
+        expect(request.orchestrator_id).toBe(PROJECT_ID);
+        expect(request.meta_prompt).toContain("Build a searchable data table.");
+        expect(request.output_r2_path).toBe(`projects/${PROJECT_ID}/wave-1/${request.artifact_id}.html`);
+        const job: DispatchedJob = state.store.get(`job:gen-${request.artifact_id}`);
+        expect(job).toMatchObject({ type: "generation", status: "pending", wave_number: 1, retries: 0 });
+      }
+    });
+
+    it("rejects a second start for the same project", async () => {
+      await orchestrator.fetch(post("/start", startRequest()));
+      const response = await orchestrator.fetch(post("/start", startRequest()));
+
+      expect(response.status).toBe(409);
+    });
+
+    it("rejects missing or undecodable content", async () => {
+      const missing = await orchestrator.fetch(post("/start", { spec_content: btoa(specMarkdown) }));
+      expect(missing.status).toBe(400);
+
+      const invalid = await orchestrator.fetch(post("/start", startRequest({ scorecard_content: btoa("not json") })));
+      expect(invalid.status).toBe(400);
+
+      const malformed = await orchestrator.fetch(post("/start", startRequest({
+        scorecard_content: btoa(JSON.stringify({ tests: [{ type: "linter", weight: "high", config: {} }] })),
+      })));
+      expect(((await malformed.json()) as any).issues).toEqual([
+        { path: "scorecard_content.tests[0].weight", message: "must be a number, got string" },
+      ]);
+      expect(state.store.has("state")).toBe(false);
+    });
+
+    it("rejects scorecards that fail static checks before dispatching anything", async () => {
+      const response = await orchestrator.fetch(post("/start", startRequest({
+        scorecard_content: btoa(JSON.stringify({
+          tests: [
+            { type: "linter", weight: 0.5, config: {} },
+            { type: "llm_evaluation", weight: 0.5, config: {} },
+            { type: "visual_diff", weight: 1.5, config: {} },
+          ],
+        })),
+      })));
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as any;
+      expect(body.error).toBe("Invalid scorecard.json");
+      expect(body.issues.map((issue: any) => issue.path)).toEqual([
+        "scorecard_content.tests[1].config.prompt",
+        "scorecard_content.tests[2].type",
+        "scorecard_content.tests[2].weight",
+      ]);
+      expect(env.GENERATOR.fetch).not.toHaveBeenCalled();
+    });
+
+    it("stores the scorecard with normalized weights", async () => {
+      await orchestrator.fetch(post("/start", startRequest({
+        scorecard_content: btoa(JSON.stringify({
+          tests: [
+            { type: "linter", weight: 0.125, config: {} },
+            { type: "llm_evaluation", weight: 0.375, config: { prompt: "Rate it" } },
+          ],
+        })),
+      })));
+
+      const stored = JSON.parse(env.objects.get(`projects/${PROJECT_ID}/scorecard.json`)!);
+      expect(stored.tests.map((test: any) => test.weight)).toEqual([0.25, 0.75]);
+    });
+
+    it("returns field-level errors for an invalid spec", async () => {
+      const response = await orchestrator.fetch(post("/start", startRequest({
+        spec_content: btoa(specMarkdown.replace("generator_count_per_wave: 3", "generator_count_per_wave: 0")),
+      })));
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as any;
+      expect(body.issues).toEqual([
+        { path: "generator_count_per_wave", message: 'must be a positive integer, got "0"' },
+      ]);
+      expect(env.GENERATOR.fetch).not.toHaveBeenCalled();
+    });
+
+    it("dispatches generator_count_per_wave jobs per wave", async () => {
+      await orchestrator.fetch(post("/start", startRequest({
+        spec_content: btoa(specMarkdown.replace("generator_count_per_wave: 3", "generator_count_per_wave: 5")),
+      })));
+
+      expect(dispatchedRequests()).toHaveLength(5);
+      expect(dispatchedRequests()[0].meta_prompt).toMatch(/^# Data table\n\nBuild a searchable data table\./);
+      expect(dispatchedRequests().map((request) => request.generation_config?.temperature)).toEqual([0.4, 0.7, 1.0, 0.4, 0.7]);
+    });
+
+    it("diversifies each artifact and records its strategy", async () => {
+      await orchestrator.fetch(post("/start", startRequest({
+        diversity: { temperatures: [0.2], personas: ["You are a minimalist designer.", "You are a data visualization expert."], seed: 100 },
+      })));
+
+      expect(dispatchedRequests().map((request) => request.generation_config)).toEqual([
+        { temperature: 0.2, seed: 100 },
+        { temperature: 0.2, seed: 101 },
+        { temperature: 0.2, seed: 102 },
+      ]);
+      expect(dispatchedRequests()[1].meta_prompt).toContain("## Style\n\nYou are a data visualization expert.");
+
+      const prompt: PromptRecord = state.store.get("prompt:wave-1-artifact-3");
+      expect(prompt.strategy.label).toBe("temperature 0.2, seed 102, persona 1");
+      expect(prompt.inputs.map((input) => input.kind)).toEqual(["spec", "output_format", "style"]);
+    });
+
+    it("records a failed artifact when the generator refuses a job", async () => {
+      env.GENERATOR.fetch
+        .mockResolvedValueOnce(new Response(null, { status: 202 }))
+        .mockResolvedValueOnce(new Response("Bad request", { status: 400 }));
+
+      await orchestrator.fetch(post("/start", startRequest()));
+
+      const prompt: PromptRecord = state.store.get("prompt:wave-1-artifact-1");
+      expect(prompt).toMatchObject({ wave_number: 1, token_budget: 3000 });
+      expect(prompt.inputs.map((input) => input.kind)).toEqual(["spec", "output_format"]);
+      expect(env.objects.get(prompt.prompt_r2_path)).toBe(dispatchedRequests()[0].meta_prompt);
+
+      const failed: ArtifactRecord = state.store.get("artifact:wave-1-artifact-2");
+      expect(failed.status).toBe("FAILED");
+      expect(state.store.get("job:gen-wave-1-artifact-2").status).toBe("failed");
+    });
+
+    it("keeps the wave and its spend intact when reports arrive while it is still being dispatched", async () => {
+      env.GENERATOR.fetch.mockImplementation(async (_url: string, init: RequestInit) => {
+        const request: GenerateRequest = JSON.parse(init.body as string);
+        await orchestrator.fetch(post("/report/generation", generationReport(request.artifact_id, {
+          status: "FAILED",
+          r2_path: null,
+        })));
+        return new Response(null, { status: 202 });
+      });
+
+      await orchestrator.fetch(post("/start", startRequest({ termination_conditions: { maxWaves: 2 } })));
+
+      expect(dispatchedRequests().map((request) => request.artifact_id)).toEqual([
+        "wave-1-artifact-1",
+        "wave-1-artifact-2",
+        "wave-1-artifact-3",
+        "wave-2-artifact-1",
+        "wave-2-artifact-2",
+        "wave-2-artifact-3",
+      ]);
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved).toMatchObject({ status: "COMPLETED_MAX_WAVES", currentWave: 2 });
+      expect(saved.costTracker.totalTokens).toBe(6 * 30);
+    });
+  });
+
+  describe("Generation and analysis callbacks", () => {
+    beforeEach(async () => {
+      await orchestrator.fetch(post("/start", startRequest()));
+    });
+
+    it("records artifacts and token usage from generation reports", async () => {
+      const response = await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+
+      expect(response.status).toBe(200);
+      const record: ArtifactRecord = state.store.get("artifact:wave-1-artifact-1");
+      expect(record).toMatchObject({ status: "SUCCESS", wave_number: 1, quality_score: null });
+      expect(state.store.get("job:gen-wave-1-artifact-1").status).toBe("complete");
+      expect(state.store.get("state").costTracker.totalTokens).toBe(30);
+      expect(state.store.get("state").status).toBe("GENERATING");
+    });
+
+    it("does not record repeated reports for a finished job but charges the tokens a retry spent", async () => {
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+      const response = await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1", {
+        attempt_id: "wave-1-artifact-1-attempt-2",
+        status: "FAILED",
+        r2_path: null,
+      })));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true, duplicate: true });
+      expect(state.store.get("job:gen-wave-1-artifact-1").status).toBe("complete");
+      expect(state.store.get("artifact:wave-1-artifact-1").status).toBe("SUCCESS");
+      expect(state.store.get("state").costTracker.totalTokens).toBe(60);
+    });
+
+    it("charges a report delivered more than once only once", async () => {
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+      const response = await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+
+      expect(await response.json()).toEqual({ received: true, duplicate: true });
+      expect(state.store.get("state").costTracker.totalTokens).toBe(30);
+      expect(state.store.get("job:gen-wave-1-artifact-1").charged_attempts).toEqual(["wave-1-artifact-1-attempt-1"]);
+
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1", { attempt_id: "wave-1-artifact-1-attempt-2" })));
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1", { attempt_id: "wave-1-artifact-1-attempt-2" })));
+
+      expect(state.store.get("state").costTracker.totalTokens).toBe(60);
+    });
+
+    it("prices generation and judge tokens per model, preferring the run's overrides", async () => {
+      state = createMockState();
+      orchestrator = new Orchestrator(state as any, env as any);
+      await orchestrator.fetch(post("/start", startRequest({
+        termination_conditions: { maxWaves: 1 },
+        pricing: { "@cf/meta/llama-3-8b-instruct": { prompt_usd_per_million: 10, completion_usd_per_million: 20 } },
+      })));
+
+      for (let index = 1; index <= 3; index++) {
+        await orchestrator.fetch(post("/report/generation", generationReport(`wave-1-artifact-${index}`, {
+          cost_metrics: { prompt_tokens: 1000, completion_tokens: 500 },
+          generation_config: { model: "@cf/meta/llama-3-8b-instruct", chat_messages: 0 },
+        })));
+      }
+      expect(state.store.get("state").costTracker.estimatedCostUSD).toBeCloseTo(3 * (0.01 + 0.01));
+
+      await orchestrator.fetch(post("/report/analysis", {
+        wave_number: 1,
+        results: [],
+        learnings_md: "",
+        usage: [{ model: "@cf/mistral/mistral-7b-instruct-v0.1", prompt_tokens: 1_000_000, completion_tokens: 0 }],
+      }));
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.costTracker.estimatedCostUSD).toBeCloseTo(0.06 + 0.11);
+      expect(saved.costTracker.totalTokens).toBe(4500 + 1_000_000);
+    });
+
+    it("keeps the reason a generation produced no artifact", async () => {
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1", {
+        status: "FAILED",
+        r2_path: null,
+        failure_reason: "NO_HTML_DOCUMENT",
+      })));
+
+      expect(state.store.get("job:gen-wave-1-artifact-1")).toMatchObject({ status: "failed", failure_reason: "NO_HTML_DOCUMENT" });
+      expect(state.store.get("artifact:wave-1-artifact-1").status).toBe("FAILED");
+      expect(dispatchedRequests()[0].output_format).toBe("self_contained_html");
+    });
+
+    it("records the generation settings echoed by the generator", async () => {
+      const effective = { model: "@cf/meta/llama-3-8b-instruct", temperature: 0.4, chat_messages: 0 };
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1", { generation_config: effective })));
+
+      const prompt: PromptRecord = state.store.get("prompt:wave-1-artifact-1");
+      expect(prompt.effective_generation_config).toEqual(effective);
+      expect(prompt.strategy.generation_config).toEqual({ temperature: 0.4 });
+    });
+
+    it("rejects malformed generation reports with field paths", async () => {
+      const response = await orchestrator.fetch(post("/report/generation", { artifact_id: "wave-1-artifact-1", status: "DONE" }));
+
+      expect(response.status).toBe(400);
+      const body = (await response.json()) as any;
+      expect(body.issues.map((issue: any) => issue.path)).toEqual(["attempt_id", "status", "r2_path", "cost_metrics"]);
+      expect(state.store.get("job:gen-wave-1-artifact-1").status).toBe("pending");
+    });
+
+    it("returns 404 for reports about unknown artifacts", async () => {
+      const response = await orchestrator.fetch(post("/report/generation", generationReport("nope")));
+      expect(response.status).toBe(404);
+    });
+
+    it("dispatches successful artifacts for analysis once the wave is complete and starts the next wave on report", async () => {
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-2")));
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-3", {
+        status: "FAILED",
+        r2_path: null,
+      })));
+
+      expect(state.store.get("state").status).toBe("ANALYZING");
+      expect(env.EVALUATOR.fetch).toHaveBeenCalledTimes(1);
+      const [url, init] = env.EVALUATOR.fetch.mock.calls[0] as any[];
+      expect(url).toBe("https://evaluator.internal/analyze");
+      const analysis: AnalyzeRequest = JSON.parse(init.body);
+      expect(analysis).toEqual({
+        orchestrator_id: PROJECT_ID,
+        artifacts: [
+          { id: "wave-1-artifact-1", r2_path: `projects/${PROJECT_ID}/wave-1/wave-1-artifact-1.html` },
+          { id: "wave-1-artifact-2", r2_path: `projects/${PROJECT_ID}/wave-1/wave-1-artifact-2.html` },
+        ],
+        scorecard,
+        wave_number: 1,
+        previous_learnings_md: "",
+      });
+      expect(state.store.get("job:analysis-wave-1").status).toBe("pending");
+
+      env.objects.set(analysis.artifacts[1].r2_path, "<!DOCTYPE html>\n<p>Best</p>");
+      const response = await orchestrator.fetch(post("/report/analysis", {
+        wave_number: 1,
+        results: analysis.artifacts.map((artifact, index) => ({ artifact_id: artifact.id, quality_score: 80 + index, details: {} })),
+        learnings_md: "",
+      }));
+      expect(response.status).toBe(200);
+
+      const record: ArtifactRecord = state.store.get("artifact:wave-1-artifact-1");
+      expect(record.quality_score).toBe(80);
+      expect(state.store.get("job:analysis-wave-1").status).toBe("complete");
+
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.status).toBe("GENERATING");
+      expect(saved.currentWave).toBe(2);
+      expect(saved.latest_learnings_md).toContain("## Wave 1");
+
+      const waveTwo = dispatchedRequests().filter((request) => request.artifact_id.startsWith("wave-2-"));
+      expect(waveTwo).toHaveLength(3);
+      expect(waveTwo[0].meta_prompt).toContain("## Learnings from previous waves");
+      expect(waveTwo[0].meta_prompt).toContain("(wave-1-artifact-2, score 81.0)\n\n```html\n<!DOCTYPE html>\n<p>Best</p>\n```");
+      const prompt: PromptRecord = state.store.get("prompt:wave-2-artifact-1");
+      expect(prompt.inputs.map((input) => input.source)).toEqual([
+        "spec.md v1.0.0",
+        "self_contained_html",
+        "latest_learnings_md",
+        "wave-1-artifact-2",
+      ]);
+
+      const mutated: PromptRecord = state.store.get("prompt:wave-2-artifact-3");
+      expect(mutated.strategy.mutation?.parent_artifact_id).toBe("wave-1-artifact-2");
+      expect(mutated.inputs.at(-1)).toMatchObject({ kind: "mutation", source: "wave-1-artifact-2" });
+      expect(waveTwo[2].meta_prompt).toBe(
+        `${env.objects.get(`projects/${PROJECT_ID}/wave-1/wave-1-artifact-2.prompt.md`)}\n\n## Variation\n\n${mutated.strategy.mutation?.directive}`
+      );
+    });
+
+    it("accepts analysis reports posted by the evaluator", async () => {
+      for (let index = 1; index <= 3; index++) {
+        await orchestrator.fetch(post("/report/generation", generationReport(`wave-1-artifact-${index}`)));
+      }
+
+      const response = await orchestrator.fetch(post("/report/analysis", {
+        wave_number: 1,
+        results: [{ artifact_id: "wave-1-artifact-1", quality_score: 64, details: { linter: { score: 64 } } }],
+        learnings_md: "- Close every tag",
+      }));
+
+      expect(response.status).toBe(200);
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.latest_learnings_md).toBe("- Close every tag");
+      const record: ArtifactRecord = state.store.get("artifact:wave-1-artifact-1");
+      expect(record.quality_score).toBe(64);
+      expect(JSON.parse(record.evaluation_details!)).toEqual({ linter: { score: 64 } });
+    });
+
+    it("moves on to the next wave when the analysis cannot be dispatched", async () => {
+      env.EVALUATOR.fetch.mockImplementation(async () => new Response(null, { status: 503 }));
+      for (let index = 1; index <= 3; index++) {
+        await orchestrator.fetch(post("/report/generation", generationReport(`wave-1-artifact-${index}`)));
+      }
+
+      expect(state.store.get("job:analysis-wave-1").status).toBe("failed");
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.currentWave).toBe(2);
+      expect(saved.latest_learnings_md).toContain("No artifacts could be evaluated.");
+    });
+
+    it("skips the evaluator when no artifact of the wave was generated", async () => {
+      for (let index = 1; index <= 3; index++) {
+        await orchestrator.fetch(post("/report/generation", generationReport(`wave-1-artifact-${index}`, {
+          status: "FAILED",
+          r2_path: null,
+        })));
+      }
+
+      expect(env.EVALUATOR.fetch).not.toHaveBeenCalled();
+      expect(state.store.get("job:analysis-wave-1").status).toBe("complete");
+      expect(state.store.get("state").currentWave).toBe(2);
+    });
+
+    it("rejects analysis reports while no analysis is running", async () => {
+      const response = await orchestrator.fetch(post("/report/analysis", { wave_number: 1, results: [], learnings_md: "" }));
+      expect(response.status).toBe(409);
+    });
+
+    it("rejects a late analysis report of an earlier wave", async () => {
+      const report = (wave: number) => ({
+        wave_number: wave,
+        results: [{ artifact_id: `wave-${wave}-artifact-1`, quality_score: 70, details: {} }],
+        learnings_md: `- Wave ${wave}`,
+      });
+      for (const wave of [1, 2]) {
+        for (let index = 1; index <= 3; index++) {
+          await orchestrator.fetch(post("/report/generation", generationReport(`wave-${wave}-artifact-${index}`)));
+        }
+        if (wave === 1) {
+          await orchestrator.fetch(post("/report/analysis", report(1)));
+        }
+      }
+      expect(state.store.get("state")).toMatchObject({ status: "ANALYZING", currentWave: 2 });
+
+      const response = await orchestrator.fetch(post("/report/analysis", report(1)));
+
+      expect(response.status).toBe(409);
+      expect(state.store.get("job:analysis-wave-2").status).toBe("pending");
+      expect(state.store.get("state").latest_learnings_md).toBe("- Wave 1");
+    });
+  });
+
+  describe("GET /status", () => {
+    const get = (path: string) => orchestrator.fetch(new Request(`https://orchestrator.internal${path}`));
+
+    it("returns the state, derived progress and a page of artifacts", async () => {
+      await orchestrator.fetch(post("/start", startRequest({ termination_conditions: { maxWaves: 3, maxCost: 1 } })));
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-2", { status: "FAILED", r2_path: null })));
+      env.objects.set("guidance/wave-2.md", "- Use a dark theme");
+      await orchestrator.fetch(post("/override", { human_guidance_r2_path: "guidance/wave-2.md", requested_by: "ana" }));
+
+      const response = await get("/status?status=SUCCESS&limit=10");
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as any;
+      expect(body.state.status).toBe("GENERATING");
+      expect(body.progress).toMatchObject({
+        current_wave: 1,
+        waves: [{ wave_number: 1, pending: 1, complete: 1, failed: 1 }],
+        best_score: null,
+        cost: { max_usd: 1 },
+        active_termination_condition: null,
+      });
+      expect(body.artifacts).toMatchObject({ total: 1, offset: 0, limit: 10, next_offset: null });
+      expect(body.artifacts.items[0].id).toBe("wave-1-artifact-1");
+      expect(body.guidance).toEqual([state.store.get("guidance:0001")]);
+      expect(body.guidance[0]).toMatchObject({ requested_by: "ana", r2_path: "guidance/wave-2.md" });
+    });
+
+    it("rejects invalid filters and unstarted projects", async () => {
+      expect((await get("/status")).status).toBe(404);
+
+      await orchestrator.fetch(post("/start", startRequest()));
+      const response = await get("/status?wave=first");
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as any).issues[0].path).toBe("wave");
+    });
+  });
+
+  describe("Human guidance overrides", () => {
+    const GUIDANCE_PATH = `projects/${PROJECT_ID}/guidance.md`;
+
+    beforeEach(async () => {
+      await orchestrator.fetch(post("/start", startRequest({ termination_conditions: { maxWaves: 5 } })));
+      env.objects.set(GUIDANCE_PATH, "- Use a dark theme\n");
+    });
+
+    const completeWave = async (wave: number) => {
+      for (let index = 1; index <= 3; index++) {
+        await orchestrator.fetch(post("/report/generation", generationReport(`wave-${wave}-artifact-${index}`)));
+      }
+      await orchestrator.fetch(post("/report/analysis", {
+        wave_number: wave,
+        results: [{ artifact_id: `wave-${wave}-artifact-1`, quality_score: 70, details: {} }],
+        learnings_md: "- Add search",
+      }));
+    };
+
+    const wavePrompts = (wave: number) =>
+      dispatchedRequests().filter((request) => request.artifact_id.startsWith(`wave-${wave}-`)).map((request) => request.meta_prompt);
+
+    it("records the override and guides only the next wave by default", async () => {
+      const response = await orchestrator.fetch(post("/override", { human_guidance_r2_path: GUIDANCE_PATH, requested_by: "ana" }));
+
+      expect(response.status).toBe(200);
+      expect(state.store.get("guidance:0001")).toMatchObject({
+        r2_path: GUIDANCE_PATH,
+        content: "- Use a dark theme",
+        scope: "wave",
+        from_wave: 2,
+        requested_by: "ana",
+      });
+
+      await completeWave(1);
+      for (const prompt of wavePrompts(2)) {
+        expect(prompt).toContain("## Human guidance");
+        expect(prompt.indexOf("- Use a dark theme")).toBeLessThan(prompt.indexOf("- Add search"));
+      }
+      const prompt: PromptRecord = state.store.get("prompt:wave-2-artifact-1");
+      expect(prompt.inputs.find((input) => input.kind === "human_guidance")?.source).toBe(GUIDANCE_PATH);
+      expect(state.store.get("prompt:wave-2-artifact-3").strategy.mutation).toBeUndefined();
+
+      await completeWave(2);
+      expect(wavePrompts(3)[0]).not.toContain("## Human guidance");
+    });
+
+    it("keeps run-scoped guidance for the rest of the run", async () => {
+      await orchestrator.fetch(post("/override", { human_guidance_r2_path: GUIDANCE_PATH, requested_by: "ana", scope: "run" }));
+
+      await completeWave(1);
+      await completeWave(2);
+      expect(wavePrompts(3)[0]).toContain("- Use a dark theme");
+    });
+
+    it("rejects guidance that is missing or invalid", async () => {
+      const missing = await orchestrator.fetch(post("/override", { human_guidance_r2_path: "nope.md", requested_by: "ana" }));
+      expect(missing.status).toBe(400);
+      expect(((await missing.json()) as any).issues).toEqual([{ path: "human_guidance_r2_path", message: "nope.md does not exist" }]);
+
+      env.objects.set(GUIDANCE_PATH, "   ");
+      const empty = await orchestrator.fetch(post("/override", { human_guidance_r2_path: GUIDANCE_PATH, requested_by: "ana" }));
+      expect(empty.status).toBe(400);
+
+      const anonymous = await orchestrator.fetch(post("/override", { human_guidance_r2_path: GUIDANCE_PATH }));
+      expect(anonymous.status).toBe(400);
+      expect([...state.store.keys()].some((key) => key.startsWith("guidance:"))).toBe(false);
+    });
+  });
+
+  describe("Job timeouts", () => {
+    const NOW = 1_700_000_000_000;
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+      await orchestrator.fetch(post("/start", startRequest({ job_timeouts: { generation_timeout_seconds: 60, max_retries: 1 } })));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const advance = async (seconds: number) => {
+      vi.setSystemTime(Date.now() + seconds * 1000);
+      await orchestrator.alarm();
+    };
+
+    it("gives every dispatched job a deadline and sets the alarm for the earliest", () => {
+      expect(state.store.get("state").jobTimeouts).toEqual({
+        generation_timeout_seconds: 60,
+        analysis_timeout_seconds: 900,
+        max_retries: 1,
+      });
+      expect(state.store.get("job:gen-wave-1-artifact-1").deadline_at).toBe(NOW + 60_000);
+      expect(state.alarm.time).toBe(NOW + 60_000);
+    });
+
+    it("leaves jobs alone until their deadline", async () => {
+      await advance(30);
+
+      expect(env.GENERATOR.fetch).toHaveBeenCalledTimes(3);
+      expect(state.store.get("job:gen-wave-1-artifact-1")).toMatchObject({ status: "pending", retries: 0 });
+      expect(state.alarm.time).toBe(NOW + 60_000);
+    });
+
+    it("dispatches overdue generations again with the original request", async () => {
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+      await advance(60);
+
+      const requests = dispatchedRequests();
+      expect(requests).toHaveLength(5);
+      expect(requests.slice(3)).toEqual([requests[1], requests[2]]);
+      expect(state.store.get("job:gen-wave-1-artifact-2")).toMatchObject({ status: "pending", retries: 1, deadline_at: NOW + 120_000 });
+      expect(state.store.get("job:gen-wave-1-artifact-1").retries).toBe(0);
+      expect(state.alarm.time).toBe(NOW + 120_000);
+    });
+
+    it("keeps reports that arrive while overdue jobs are dispatched again", async () => {
+      env.GENERATOR.fetch.mockImplementationOnce(async () => {
+        await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+        return new Response(null, { status: 202 });
+      });
+      await advance(60);
+
+      const saved: OrchestratorState = state.store.get("state");
+      expect(state.store.get("job:gen-wave-1-artifact-1").status).toBe("complete");
+      expect(saved.costTracker.totalTokens).toBe(30);
+      expect(saved.costTracker.reservedUSD).toBeCloseTo(2 * state.store.get("job:gen-wave-1-artifact-2").reserved_usd);
+    });
+
+    it("fails artifacts that stay unanswered after the last retry and completes the wave with the rest", async () => {
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+      await advance(60);
+      await advance(60);
+
+      expect(state.store.get("job:gen-wave-1-artifact-2").status).toBe("timed_out");
+      expect(state.store.get("artifact:wave-1-artifact-2").status).toBe("FAILED");
+      expect(state.store.get("state").status).toBe("ANALYZING");
+      const analysis: AnalyzeRequest = JSON.parse((env.EVALUATOR.fetch.mock.calls[0] as any[])[1].body);
+      expect(analysis.artifacts.map((artifact) => artifact.id)).toEqual(["wave-1-artifact-1"]);
+      expect(state.alarm.time).toBe(NOW + 120_000 + 900_000);
+
+      // A report arriving after the job timed out changes nothing.
+      const late = await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-2")));
+      expect(await late.json()).toEqual({ received: true, duplicate: true });
+      expect(state.store.get("artifact:wave-1-artifact-2").status).toBe("FAILED");
+    });
+
+    it("finishes the wave without results when the analysis times out", async () => {
+      for (let index = 1; index <= 3; index++) {
+        await orchestrator.fetch(post("/report/generation", generationReport(`wave-1-artifact-${index}`)));
+      }
+      await advance(900);
+      expect(env.EVALUATOR.fetch).toHaveBeenCalledTimes(2);
+      await advance(900);
+
+      expect(state.store.get("job:analysis-wave-1").status).toBe("timed_out");
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.currentWave).toBe(2);
+      expect(saved.latest_learnings_md).toContain("No artifacts could be evaluated.");
+    });
+  });
+
+  describe("Termination conditions", () => {
+    const run = async (termination_conditions: StartRequest["termination_conditions"]) => {
+      state = createMockState();
+      env = createMockEnv();
+      orchestrator = new Orchestrator(state as any, env as any);
+      await orchestrator.fetch(post("/start", startRequest({ termination_conditions })));
+    };
+
+    const completeWave = async (wave: number, score: number, tokens = 30) => {
+      const artifactIds = [1, 2, 3].map((index) => `wave-${wave}-artifact-${index}`);
+      for (const artifactId of artifactIds) {
+        await orchestrator.fetch(post("/report/generation", generationReport(artifactId, {
+          cost_metrics: { prompt_tokens: tokens, completion_tokens: 0 },
+        })));
+      }
+      await orchestrator.fetch(post("/report/analysis", {
+        wave_number: wave,
+        results: artifactIds.map((artifact_id) => ({ artifact_id, quality_score: score, details: {} })),
+        learnings_md: "",
+      }));
+    };
+
+    it("stops with COMPLETED_MAX_WAVES once maxWaves waves have run", async () => {
+      await run({ maxWaves: 2 });
+      await completeWave(1, 50);
+      expect(state.store.get("state").currentWave).toBe(2);
+      await completeWave(2, 55);
+
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.status).toBe("COMPLETED_MAX_WAVES");
+      expect(env.GENERATOR.fetch).toHaveBeenCalledTimes(6);
+    });
+
+    it("stops with COMPLETED_BUDGET_EXCEEDED when spend reaches maxCost", async () => {
+      await run({ maxWaves: 10, maxCost: 0.05 });
+      await completeWave(1, 50, 100_000);
+
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.costTracker.estimatedCostUSD).toBeGreaterThanOrEqual(0.05);
+      expect(saved.status).toBe("COMPLETED_BUDGET_EXCEEDED");
+    });
+
+    it("reserves the estimated cost of each generation and reconciles it on report", async () => {
+      await run({ maxWaves: 10, maxCost: 1 });
+      const reserved = state.store.get("job:gen-wave-1-artifact-1").reserved_usd;
+      // Fallback rates, since the strategies name no model: the prompt plus 4096 completion tokens.
+      expect(reserved).toBeGreaterThan((4096 * 2.253) / 1_000_000);
+      expect(state.store.get("state").costTracker.reservedUSD).toBeCloseTo(3 * reserved);
+
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.costTracker.reservedUSD).toBeCloseTo(2 * reserved);
+      expect(saved.costTracker.estimatedCostUSD).toBeLessThan(reserved);
+      expect(state.store.get("job:gen-wave-1-artifact-1").reserved_usd).toBeUndefined();
+    });
+
+    it("keeps reservations released by reports that arrive while the wave is still being dispatched", async () => {
+      state = createMockState();
+      env = createMockEnv();
+      orchestrator = new Orchestrator(state as any, env as any);
+      env.GENERATOR.fetch.mockImplementationOnce(async () => {
+        await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+        return new Response(null, { status: 202 });
+      });
+
+      await orchestrator.fetch(post("/start", startRequest({ termination_conditions: { maxWaves: 10, maxCost: 1 } })));
+
+      const reserved = state.store.get("job:gen-wave-1-artifact-2").reserved_usd;
+      const saved: OrchestratorState = state.store.get("state");
+      expect(state.store.get("job:gen-wave-1-artifact-1").reserved_usd).toBeUndefined();
+      expect(saved.costTracker.reservedUSD).toBeCloseTo(2 * reserved);
+      expect(saved.costTracker.totalTokens).toBe(30);
+    });
+
+    it("shrinks a wave to the jobs the remaining budget can cover", async () => {
+      await run({ maxWaves: 10, maxCost: 0.025 });
+
+      expect(env.GENERATOR.fetch).toHaveBeenCalledTimes(2);
+      expect(state.store.get("job:gen-wave-1-artifact-3")).toBeUndefined();
+      expect(state.store.get("state").status).toBe("GENERATING");
+
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-1")));
+      await orchestrator.fetch(post("/report/generation", generationReport("wave-1-artifact-2")));
+      expect(state.store.get("state").status).toBe("ANALYZING");
+    });
+
+    it("skips the wave and ends the run when not even one job fits the budget", async () => {
+      await run({ maxWaves: 10, maxCost: 0.001 });
+
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.status).toBe("COMPLETED_BUDGET_EXCEEDED");
+      expect(saved.currentWave).toBe(0);
+      expect(saved.costTracker.reservedUSD).toBe(0);
+      expect(env.GENERATOR.fetch).not.toHaveBeenCalled();
+    });
+
+    it("stops with COMPLETED_VIABLE_CANDIDATES once enough artifacts pass the threshold", async () => {
+      await run({ maxWaves: 10, minViableCandidates: 3, viableScoreThreshold: 85 });
+      await completeWave(1, 80);
+      expect(state.store.get("state").status).toBe("GENERATING");
+      await completeWave(2, 90);
+
+      expect(state.store.get("state").status).toBe("COMPLETED_VIABLE_CANDIDATES");
+    });
+
+    it("stops with COMPLETED_QUALITY_PLATEAU when scores stop improving", async () => {
+      await run({ maxWaves: 10, qualityPlateau: { waves: 1, delta: 5 } });
+      await completeWave(1, 60);
+      await completeWave(2, 70);
+      expect(state.store.get("state").status).toBe("GENERATING");
+      await completeWave(3, 72);
+
+      expect(state.store.get("state").status).toBe("COMPLETED_QUALITY_PLATEAU");
+    });
+
+    const get = (path: string) => orchestrator.fetch(new Request(`https://orchestrator.internal${path}`));
+
+    it("pauses for approval after each analysis and exposes the review", async () => {
+      await run({ maxWaves: 3, manualApproval: true });
+      await completeWave(1, 70);
+
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.status).toBe("AWAITING_APPROVAL");
+      expect(env.GENERATOR.fetch).toHaveBeenCalledTimes(3);
+
+      const response = await get("/review");
+      expect(response.status).toBe(200);
+      const review = (await response.json()) as any;
+      expect(review.top_artifacts).toHaveLength(3);
+      expect(review.top_artifacts[0]).toEqual({ r2_path: `projects/${PROJECT_ID}/wave-1/wave-1-artifact-1.html`, quality_score: 70 });
+      expect(review.analysis_summary).toBe(saved.latest_learnings_md);
+    });
+
+    it("resumes with the next wave on approval", async () => {
+      await run({ maxWaves: 3, manualApproval: true });
+      await completeWave(1, 70);
+
+      const response = await orchestrator.fetch(post("/review", { action: "approve" }));
+      expect(await response.json()).toEqual({ status: "GENERATING" });
+      const saved: OrchestratorState = state.store.get("state");
+      expect(saved.currentWave).toBe(2);
+      expect(saved.proposedLearningsForReview).toBeUndefined();
+      expect(env.GENERATOR.fetch).toHaveBeenCalledTimes(6);
+    });
+
+    it("plans the approved wave again from the alarm when its inputs cannot be loaded", async () => {
+      await run({ maxWaves: 3, manualApproval: true });
+      await completeWave(1, 70);
+      env.R2_BUCKET.get.mockRejectedValueOnce(new Error("R2 unavailable"));
+
+      const response = await orchestrator.fetch(post("/review", { action: "approve" }));
+      expect(await response.json()).toEqual({ status: "GENERATING" });
+      expect(state.store.get("state")).toMatchObject({ status: "GENERATING", currentWave: 2 });
+      expect(env.GENERATOR.fetch).toHaveBeenCalledTimes(3);
+      expect(state.alarm.time).not.toBeNull();
+
+      await orchestrator.alarm();
+
+      expect(state.store.get("state")).toMatchObject({ status: "GENERATING", currentWave: 2 });
+      expect(env.GENERATOR.fetch).toHaveBeenCalledTimes(6);
+      expect(state.store.get("job:gen-wave-2-artifact-1").status).toBe("pending");
+      expect(state.alarm.time).toBe(state.store.get("job:gen-wave-2-artifact-1").deadline_at);
+    });
+
+    it("builds the next wave from learnings edited by the reviewer", async () => {
+      await run({ maxWaves: 3, manualApproval: true });
+      await completeWave(1, 70);
+
+      const edited = await orchestrator.fetch(post("/review", { action: "edit_learnings", learnings_md: "- Keep the header sticky" }));
+      expect(((await edited.json()) as any).analysis_summary).toBe("- Keep the header sticky");
+      expect(state.store.get("state").status).toBe("AWAITING_APPROVAL");
+
+      await orchestrator.fetch(post("/review", { action: "approve" }));
+      const waveTwo = dispatchedRequests().filter((request) => request.artifact_id.startsWith("wave-2-"));
+      expect(waveTwo[0].meta_prompt).toContain("- Keep the header sticky");
+    });
+
+    it("stops the run on rejection", async () => {
+      await run({ maxWaves: 3, manualApproval: true });
+      await completeWave(1, 70);
+
+      await orchestrator.fetch(post("/review", { action: "reject" }));
+      expect(state.store.get("state").status).toBe("COMPLETED");
+      expect(env.GENERATOR.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("does not pause when the run is finished anyway", async () => {
+      await run({ maxWaves: 1, manualApproval: true });
+      await completeWave(1, 70);
+
+      expect(state.store.get("state").status).toBe("COMPLETED_MAX_WAVES");
+    });
+
+    it("rejects review requests when no review is pending", async () => {
+      await run({ maxWaves: 3, manualApproval: true });
+
+      expect((await get("/review")).status).toBe(409);
+      expect((await orchestrator.fetch(post("/review", { action: "approve" }))).status).toBe(409);
+      expect((await orchestrator.fetch(post("/review", { action: "skip" }))).status).toBe(400);
+    });
+
+    it("applies a default wave limit when none is provided", async () => {
+      await run(undefined);
+      expect(state.store.get("state").terminationConditions.maxWaves).toBe(5);
+    });
+  });
+
+  it("returns 404 for unknown routes", async () => {
+    const response = await orchestrator.fetch(new Request("https://orchestrator.internal/nope"));
+    expect(response.status).toBe(404);
+  });
+});
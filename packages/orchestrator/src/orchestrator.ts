@@ -0,0 +1,925 @@
+import {
+  AnalyzeRequest,
+  ArtifactRecord,
+  CostMetrics,
+  DispatchedJob,
+  GenerateRequest,
+  GenerationStrategy,
+  GuidanceOverride,
+  OverrideControlRequest,
+  OrchestratorState,
+  ParsedSpec,
+  PromptRecord,
+  ROOT_PATH,
+  ReportAnalysisRequest,
+  ReportGenerationRequest,
+  ReviewActionRequest,
+  ReviewResponse,
+  Scorecard,
+  StartRequest,
+  StatusResponse,
+  ValidationIssue,
+  ValidationResult,
+  checkScorecard,
+  priceUsage,
+  createLogger,
+  createValidationErrorResponse,
+  decodeBase64,
+  distillLearnings,
+  parseRequestBody,
+  parseSpec,
+  parseSpecMarkdown,
+  validateOverrideControlRequest,
+  validateReportAnalysisRequest,
+  validateReportGenerationRequest,
+  validateReviewActionRequest,
+  validateStartRequest,
+} from "@sral/shared";
+import { DEFAULT_DIVERSITY, planStrategies } from "./diversity.js";
+import { estimateGenerationCost, releaseReservation, reserveBudget } from "./budget.js";
+import { activeGuidance, checkGuidance } from "./guidance.js";
+import { DEFAULT_JOB_TIMEOUTS, jobDeadline, nextDeadline, overdueJobs } from "./jobs.js";
+import { ComposedPrompt, MAX_EXEMPLARS, PromptExemplar, composeMetaPrompt, mutatePrompt } from "./prompt.js";
+import { pageArtifacts, parseStatusQuery, summarizeProgress } from "./status.js";
+import { DEFAULT_TERMINATION_CONDITIONS, checkTermination } from "./termination.js";
+
+export interface Env {
+  ORCHESTRATOR: DurableObjectNamespace;
+  GENERATOR: Fetcher;
+  EVALUATOR: Fetcher;
+  R2_BUCKET: R2Bucket;
+}
+
+const STATE_KEY = "state";
+const ARTIFACT_PREFIX = "artifact:";
+const JOB_PREFIX = "job:";
+const PROMPT_PREFIX = "prompt:";
+const GUIDANCE_PREFIX = "guidance:";
+
+// How many of a wave's best artifacts a reviewer is shown.
+const REVIEW_TOP_ARTIFACTS = 3;
+
+// How long a wave whose inputs could not be loaded waits before the alarm plans it again.
+const WAVE_RETRY_DELAY_MS = 60_000;
+
+const GENERATOR_URL = "https://generator.internal/";
+const EVALUATOR_ANALYZE_URL = "https://evaluator.internal/analyze";
+
+// What a wave is composed from, loaded from R2 and storage before any job is planned.
+interface WaveInputs {
+  spec: ParsedSpec;
+  exemplars: PromptExemplar[];
+  guidance: GuidanceOverride[];
+  bestPrompt: { artifactId: string; composed: ComposedPrompt } | null;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function decodeScorecard(content: string): ValidationResult<Scorecard> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decodeBase64(content));
+  } catch {
+    return { valid: false, errors: [{ path: "scorecard_content", message: "is not base64-encoded JSON" }] };
+  }
+
+  const scorecard = checkScorecard(parsed);
+  if (!scorecard.valid) {
+    const errors: ValidationIssue[] = scorecard.errors.map((issue) => ({
+      path: issue.path === ROOT_PATH ? "scorecard_content" : `scorecard_content.${issue.path}`,
+      message: issue.message,
+    }));
+    return { valid: false, errors };
+  }
+  return scorecard;
+}
+
+// Adds a model's token usage to the run's spend at the run's prices and returns its cost in USD.
+function addSpend(state: OrchestratorState, model: string | undefined, usage: CostMetrics): number {
+  const cost = priceUsage(model, usage, state.pricing);
+  state.costTracker.totalTokens += usage.prompt_tokens + usage.completion_tokens;
+  state.costTracker.estimatedCostUSD += cost;
+  return cost;
+}
+
+export class Orchestrator implements DurableObject {
+  constructor(
+    private readonly state: DurableObjectState,
+    private readonly env: Env
+  ) {}
+
+  private get projectId(): string {
+    return this.state.id.toString();
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const logger = createLogger("orchestrator", { projectId: this.projectId });
+
+    try {
+      switch (`${request.method} ${url.pathname}`) {
+        case "POST /start":
+          return await this.withBody(request, validateStartRequest, (body) => this.handleStart(body));
+        case "POST /report/generation":
+          return await this.withBody(request, validateReportGenerationRequest, (body) => this.handleReportGeneration(body));
+        case "POST /report/analysis":
+          return await this.withBody(request, validateReportAnalysisRequest, (body) => this.handleReportAnalysis(body));
+        case "GET /status":
+          return await this.handleStatus(url.searchParams);
+        case "POST /override":
+          return await this.withBody(request, validateOverrideControlRequest, (body) => this.handleOverride(body));
+        case "GET /review":
+          return await this.handleGetReview();
+        case "POST /review":
+          return await this.withBody(request, validateReviewActionRequest, (body) => this.handleReviewAction(body));
+        default:
+          return json({ error: `Route not found: ${request.method} ${url.pathname}` }, 404);
+      }
+    } catch (error) {
+      logger.error("Request handling failed", error instanceof Error ? error : new Error(String(error)));
+      return json({
+        error: "Orchestrator request failed",
+        details: error instanceof Error ? error.message : "Unknown error",
+      }, 500);
+    }
+  }
+
+  /**
+   * Fires at the earliest deadline of the jobs still waiting on a report.
+   * Overdue jobs are dispatched again while retries remain; after that they
+   * time out, a generation counts as a failed artifact and an analysis as one
+   * without results, so the wave still completes. A wave that was started but
+   * could not be planned is planned again.
+   */
+  async alarm(): Promise<void> {
+    const state = await this.state.storage.get<OrchestratorState>(STATE_KEY);
+    if (!state) {
+      return;
+    }
+
+    const logger = createLogger("orchestrator", { projectId: state.projectId, waveNumber: state.currentWave });
+    const jobs = await this.state.storage.list<DispatchedJob>({ prefix: JOB_PREFIX });
+    const planned = [...jobs.values()].some((job) => job.type === "generation" && job.wave_number === state.currentWave);
+    if (state.status === "GENERATING" && !planned) {
+      logger.info("Planning wave again");
+      await this.dispatchWave(state);
+      return;
+    }
+    const now = Date.now();
+    const retries: DispatchedJob[] = [];
+    let analysisTimedOut = false;
+
+    // Settle every overdue job before dispatching anything, so reports taken in meanwhile are not overwritten.
+    for (const { job, action } of overdueJobs([...jobs.values()], state.jobTimeouts, now)) {
+      const jobKey = `${JOB_PREFIX}${job.job_id}`;
+      if (action === "retry") {
+        job.retries += 1;
+        job.deadline_at = jobDeadline(job.type, state.jobTimeouts, now);
+        await this.state.storage.put(jobKey, job);
+        retries.push(job);
+        continue;
+      }
+
+      job.status = "timed_out";
+      releaseReservation(state, job);
+      await this.state.storage.put(jobKey, job);
+      logger.warn("Job timed out", { jobId: job.job_id, retries: job.retries });
+      if (job.type === "generation") {
+        await this.recordArtifact(job.wave_number, job.artifact_id, "FAILED", null);
+      } else {
+        analysisTimedOut = true;
+      }
+    }
+    await this.state.storage.put(STATE_KEY, state);
+
+    for (const job of retries) {
+      logger.warn("Job overdue, dispatching again", { jobId: job.job_id, retries: job.retries });
+      try {
+        if (job.type === "generation") {
+          await this.redispatchGeneration(state, job);
+        } else {
+          await this.dispatchAnalysis(await this.analyzeRequest(state, await this.successfulArtifacts(state)));
+        }
+      } catch (error) {
+        // The job stays pending; its next deadline retries it again or times it out.
+        logger.error("Failed to dispatch job again", error instanceof Error ? error : new Error(String(error)), {
+          jobId: job.job_id,
+        });
+      }
+    }
+
+    const latest = await this.currentState();
+    if (latest.currentWave === state.currentWave) {
+      if (analysisTimedOut && latest.status === "ANALYZING") {
+        await this.completeAnalysis(latest, { results: [], learnings_md: "" });
+      } else {
+        await this.advanceIfGenerationComplete(latest);
+      }
+    }
+    await this.scheduleAlarm();
+  }
+
+  // The stored run; for handlers that read it again after going out to another worker or R2.
+  private async currentState(): Promise<OrchestratorState> {
+    const state = await this.state.storage.get<OrchestratorState>(STATE_KEY);
+    if (!state) {
+      throw new Error("Project not started");
+    }
+    return state;
+  }
+
+  private async withBody<T>(
+    request: Request,
+    validate: (value: unknown) => ValidationResult<T>,
+    handler: (body: T) => Promise<Response>
+  ): Promise<Response> {
+    const body = await parseRequestBody(request, validate);
+    return body.valid ? handler(body.value) : createValidationErrorResponse(body.errors);
+  }
+
+  private async handleStart(payload: StartRequest): Promise<Response> {
+    if (await this.state.storage.get<OrchestratorState>(STATE_KEY)) {
+      return json({ error: "Project already started" }, 409);
+    }
+
+    const spec = parseSpec(payload.spec_content);
+    if (!spec.valid) {
+      return createValidationErrorResponse(spec.errors, "Invalid spec.md");
+    }
+
+    const scorecard = decodeScorecard(payload.scorecard_content);
+    if (!scorecard.valid) {
+      return createValidationErrorResponse(scorecard.errors, "Invalid scorecard.json");
+    }
+
+    const specPath = `projects/${this.projectId}/spec.md`;
+    const scorecardPath = `projects/${this.projectId}/scorecard.json`;
+    await this.env.R2_BUCKET.put(specPath, decodeBase64(payload.spec_content), {
+      httpMetadata: { contentType: "text/markdown" },
+    });
+    await this.env.R2_BUCKET.put(scorecardPath, JSON.stringify(scorecard.value), {
+      httpMetadata: { contentType: "application/json" },
+    });
+
+    const state: OrchestratorState = {
+      projectId: this.projectId,
+      status: "IDLE",
+      currentWave: 0,
+      config: { specPath, scorecardPath },
+      terminationConditions: { ...DEFAULT_TERMINATION_CONDITIONS, ...payload.termination_conditions },
+      diversity: { ...DEFAULT_DIVERSITY, ...payload.diversity },
+      jobTimeouts: { ...DEFAULT_JOB_TIMEOUTS, ...payload.job_timeouts },
+      pricing: payload.pricing ?? {},
+      costTracker: { totalTokens: 0, estimatedCostUSD: 0, reservedUSD: 0 },
+      latest_learnings_md: "",
+    };
+
+    const started = await this.startWave(state);
+
+    return json({ projectId: started.projectId, status: started.status, currentWave: started.currentWave }, 202);
+  }
+
+  private async handleReportGeneration(report: ReportGenerationRequest): Promise<Response> {
+    const state = await this.state.storage.get<OrchestratorState>(STATE_KEY);
+    if (!state) {
+      return json({ error: "Project not started" }, 404);
+    }
+
+    const jobKey = `${JOB_PREFIX}gen-${report.artifact_id}`;
+    const job = await this.state.storage.get<DispatchedJob>(jobKey);
+    if (!job) {
+      return json({ error: `Unknown artifact: ${report.artifact_id}` }, 404);
+    }
+
+    const logger = createLogger("orchestrator", {
+      projectId: state.projectId,
+      waveNumber: job.wave_number,
+      artifactId: report.artifact_id,
+    });
+
+    // A redelivered or retried result is not recorded twice. A retry really ran again, so its tokens are
+    // still charged; a report delivered again keeps its attempt id and is charged only once.
+    const charged = job.charged_attempts ?? [];
+    if (job.status !== "pending") {
+      const newAttempt = !charged.includes(report.attempt_id);
+      const costUSD = newAttempt ? addSpend(state, report.generation_config?.model, report.cost_metrics) : 0;
+      if (newAttempt) {
+        job.charged_attempts = [...charged, report.attempt_id];
+        await this.state.storage.put(jobKey, job);
+        await this.state.storage.put(STATE_KEY, state);
+      }
+      logger.info("Duplicate generation report", { status: report.status, jobStatus: job.status, attemptId: report.attempt_id, costUSD });
+      return json({ received: true, duplicate: true });
+    }
+
+    job.status = report.status === "SUCCESS" ? "complete" : "failed";
+    job.charged_attempts = [...charged, report.attempt_id];
+    if (report.failure_reason) {
+      job.failure_reason = report.failure_reason;
+    }
+    const reservedUSD = job.reserved_usd ?? 0;
+    releaseReservation(state, job);
+    await this.state.storage.put(jobKey, job);
+    await this.recordArtifact(job.wave_number, report.artifact_id, report.status, report.r2_path);
+
+    // Keep the settings the generator actually used next to the strategy that asked for them.
+    const promptKey = `${PROMPT_PREFIX}${report.artifact_id}`;
+    const promptRecord = await this.state.storage.get<PromptRecord>(promptKey);
+    if (promptRecord && report.generation_config) {
+      promptRecord.effective_generation_config = report.generation_config;
+      await this.state.storage.put(promptKey, promptRecord);
+    }
+
+    const tokens = report.cost_metrics.prompt_tokens + report.cost_metrics.completion_tokens;
+    const costUSD = addSpend(state, report.generation_config?.model, report.cost_metrics);
+    await this.state.storage.put(STATE_KEY, state);
+
+    logger.info("Generation reported", { status: report.status, failureReason: report.failure_reason, tokens, costUSD, reservedUSD });
+
+    await this.advanceIfGenerationComplete(state);
+
+    return json({ received: true });
+  }
+
+  private async handleReportAnalysis(report: ReportAnalysisRequest): Promise<Response> {
+    const state = await this.state.storage.get<OrchestratorState>(STATE_KEY);
+    if (!state) {
+      return json({ error: "Project not started" }, 404);
+    }
+    if (state.status !== "ANALYZING") {
+      return json({ error: `No analysis in progress (status ${state.status})` }, 409);
+    }
+
+    // A retried analysis can report late; it must not be taken for the analysis of a later wave.
+    if (report.wave_number !== state.currentWave) {
+      return json({ error: `Analysis of wave ${report.wave_number} is not in progress (wave ${state.currentWave} is)` }, 409);
+    }
+
+    const jobKey = `${JOB_PREFIX}analysis-wave-${state.currentWave}`;
+    const job = await this.state.storage.get<DispatchedJob>(jobKey);
+    if (job) {
+      job.status = "complete";
+      await this.state.storage.put(jobKey, job);
+    }
+
+    await this.completeAnalysis(state, report);
+
+    return json({ received: true });
+  }
+
+  private async handleStatus(params: URLSearchParams): Promise<Response> {
+    const state = await this.state.storage.get<OrchestratorState>(STATE_KEY);
+    if (!state) {
+      return json({ error: "Project not started" }, 404);
+    }
+    const query = parseStatusQuery(params);
+    if (!query.valid) {
+      return createValidationErrorResponse(query.errors, "Invalid status query");
+    }
+
+    const jobs = await this.state.storage.list<DispatchedJob>({ prefix: JOB_PREFIX });
+    const artifacts = await this.listArtifacts();
+    const status: StatusResponse = {
+      state,
+      progress: summarizeProgress(state, [...jobs.values()], artifacts),
+      guidance: await this.listGuidance(),
+      artifacts: pageArtifacts(artifacts, query.value),
+    };
+    return json(status);
+  }
+
+  private async handleOverride(override: OverrideControlRequest): Promise<Response> {
+    const state = await this.state.storage.get<OrchestratorState>(STATE_KEY);
+    if (!state) {
+      return json({ error: "Project not started" }, 404);
+    }
+    if (!["GENERATING", "ANALYZING", "AWAITING_APPROVAL"].includes(state.status)) {
+      return json({ error: `Run is not in progress (status ${state.status})` }, 409);
+    }
+
+    const object = await this.env.R2_BUCKET.get(override.human_guidance_r2_path);
+    if (!object) {
+      return createValidationErrorResponse([
+        { path: "human_guidance_r2_path", message: `${override.human_guidance_r2_path} does not exist` },
+      ]);
+    }
+    const guidance = checkGuidance(await object.text(), override.human_guidance_r2_path);
+    if (!guidance.valid) {
+      return createValidationErrorResponse(guidance.errors, "Invalid human guidance");
+    }
+
+    // Zero-padded so the audit trail lists in the order overrides were made.
+    const existing = await this.state.storage.list<GuidanceOverride>({ prefix: GUIDANCE_PREFIX });
+    const record: GuidanceOverride = {
+      id: String(existing.size + 1).padStart(4, "0"),
+      r2_path: override.human_guidance_r2_path,
+      content: guidance.value,
+      scope: override.scope ?? "wave",
+      from_wave: state.currentWave + 1,
+      requested_by: override.requested_by,
+      requested_at: Date.now(),
+    };
+    await this.state.storage.put(`${GUIDANCE_PREFIX}${record.id}`, record);
+
+    createLogger("orchestrator", { projectId: state.projectId, waveNumber: state.currentWave }).info("Human guidance accepted", {
+      overrideId: record.id,
+      path: record.r2_path,
+      scope: record.scope,
+      fromWave: record.from_wave,
+      requestedBy: record.requested_by,
+    });
+
+    return json(record);
+  }
+
+  private async handleGetReview(): Promise<Response> {
+    const state = await this.state.storage.get<OrchestratorState>(STATE_KEY);
+    if (!state) {
+      return json({ error: "Project not started" }, 404);
+    }
+    if (state.status !== "AWAITING_APPROVAL" || !state.proposedLearningsForReview) {
+      return json({ error: `No review pending (status ${state.status})` }, 409);
+    }
+    return json(state.proposedLearningsForReview);
+  }
+
+  private async handleReviewAction(review: ReviewActionRequest): Promise<Response> {
+    const state = await this.state.storage.get<OrchestratorState>(STATE_KEY);
+    if (!state) {
+      return json({ error: "Project not started" }, 404);
+    }
+    if (state.status !== "AWAITING_APPROVAL" || !state.proposedLearningsForReview) {
+      return json({ error: `No review pending (status ${state.status})` }, 409);
+    }
+
+    const logger = createLogger("orchestrator", { projectId: state.projectId, waveNumber: state.currentWave });
+    switch (review.action) {
+      case "edit_learnings":
+        // The run stays paused so the reviewer can check the result before approving it.
+        state.latest_learnings_md = review.learnings_md!;
+        state.proposedLearningsForReview.analysis_summary = review.learnings_md!;
+        await this.state.storage.put(STATE_KEY, state);
+        logger.info("Learnings edited by reviewer", { length: review.learnings_md!.length });
+        return json(state.proposedLearningsForReview);
+      case "reject":
+        state.status = "COMPLETED";
+        delete state.proposedLearningsForReview;
+        await this.state.storage.put(STATE_KEY, state);
+        logger.info("Run stopped by reviewer");
+        return json({ status: state.status });
+      case "approve":
+        delete state.proposedLearningsForReview;
+        logger.info("Wave approved by reviewer");
+        return json({ status: (await this.startWave(state)).status });
+    }
+  }
+
+  // Claims the next wave before any input is loaded, so a second start, approval or report cannot start it too.
+  private async startWave(state: OrchestratorState): Promise<OrchestratorState> {
+    state.currentWave += 1;
+    state.status = "GENERATING";
+    await this.state.storage.put(STATE_KEY, state);
+    return this.dispatchWave(state);
+  }
+
+  /**
+   * Plans, reserves and persists every job of the claimed wave before the
+   * first dispatch. Reports can arrive while the generator is being called, so
+   * the state is read again after each dispatch rather than written back from
+   * the copy the wave was planned with. When the wave's inputs cannot be
+   * loaded, the wave stays claimed without jobs and the alarm plans it again.
+   * Returns the run's latest state.
+   */
+  private async dispatchWave(state: OrchestratorState): Promise<OrchestratorState> {
+    const wave = state.currentWave;
+    const logger = createLogger("orchestrator", { projectId: state.projectId, waveNumber: wave });
+    let inputs: WaveInputs;
+    try {
+      inputs = await this.loadWaveInputs(state);
+    } catch (error) {
+      logger.error("Failed to load wave inputs, retrying", error instanceof Error ? error : new Error(String(error)), {
+        retryInMs: WAVE_RETRY_DELAY_MS,
+      });
+      await this.state.storage.setAlarm(Date.now() + WAVE_RETRY_DELAY_MS);
+      return this.currentState();
+    }
+    const { spec, exemplars, guidance, bestPrompt } = inputs;
+    const waveSize = spec.config.generator_count_per_wave;
+    const strategies = planStrategies(state.diversity, wave, waveSize, bestPrompt?.artifactId ?? null);
+
+    // Loading the inputs above went out to R2, so reserve against the stored spend.
+    state = await this.currentState();
+    const planned: { job: DispatchedJob; prompt: string; promptRecord: PromptRecord }[] = [];
+    for (let index = 1; index <= waveSize; index++) {
+      const strategy = strategies[index - 1];
+      const composed =
+        strategy.mutation && bestPrompt
+          ? mutatePrompt(bestPrompt.composed, bestPrompt.artifactId, strategy.mutation.directive)
+          : composeMetaPrompt({
+              spec,
+              learningsMd: state.latest_learnings_md,
+              humanGuidance: guidance.map((override) => override.content).join("\n\n"),
+              humanGuidanceSource: guidance.map((override) => override.r2_path).join(", "),
+              persona: strategy.persona,
+              exemplars,
+            });
+
+      // Shrink the wave to what the budget can still cover, assuming every job runs to max_tokens.
+      const estimatedUSD = estimateGenerationCost(composed.estimatedTokens, strategy.generation_config, state.pricing);
+      if (!reserveBudget(state, estimatedUSD)) {
+        logger.warn("Budget exhausted, shrinking wave", { artifacts: planned.length, planned: waveSize, estimatedUSD });
+        break;
+      }
+
+      const artifactId = `wave-${wave}-artifact-${index}`;
+      planned.push({
+        job: {
+          job_id: `gen-${artifactId}`,
+          artifact_id: artifactId,
+          wave_number: wave,
+          type: "generation",
+          status: "pending",
+          retries: 0,
+          created_at: Date.now(),
+          deadline_at: jobDeadline("generation", state.jobTimeouts, Date.now()),
+          reserved_usd: estimatedUSD,
+        },
+        prompt: composed.prompt,
+        // Keep the exact prompt, what went into it and how it was varied for auditing.
+        promptRecord: {
+          artifact_id: artifactId,
+          wave_number: wave,
+          prompt_r2_path: `projects/${state.projectId}/wave-${wave}/${artifactId}.prompt.md`,
+          token_budget: composed.tokenBudget,
+          estimated_tokens: composed.estimatedTokens,
+          inputs: composed.inputs,
+          strategy,
+          created_at: Date.now(),
+        },
+      });
+    }
+
+    // Not even one artifact fits: the wave is skipped and the run ends on its budget.
+    if (planned.length === 0) {
+      state.currentWave -= 1;
+      state.status = "COMPLETED_BUDGET_EXCEEDED";
+      await this.state.storage.put(STATE_KEY, state);
+      logger.info("Run finished", { status: state.status, costUSD: state.costTracker.estimatedCostUSD });
+      return state;
+    }
+
+    // The whole wave is stored before anything is dispatched, so an early report never finds it complete.
+    for (const { job, promptRecord } of planned) {
+      await this.state.storage.put(`${JOB_PREFIX}${job.job_id}`, job);
+      await this.state.storage.put(`${PROMPT_PREFIX}${job.artifact_id}`, promptRecord);
+    }
+    await this.state.storage.put(STATE_KEY, state);
+
+    for (const { job, prompt, promptRecord } of planned) {
+      try {
+        await this.env.R2_BUCKET.put(promptRecord.prompt_r2_path, prompt, {
+          httpMetadata: { contentType: "text/markdown" },
+        });
+        await this.dispatchGeneration(
+          this.generateRequest(state, job.artifact_id, prompt, promptRecord.strategy, spec.config.output_format)
+        );
+      } catch (error) {
+        logger.error("Failed to dispatch generation", error instanceof Error ? error : new Error(String(error)), {
+          artifactId: job.artifact_id,
+        });
+        await this.failDispatchedGeneration(job.job_id);
+      }
+    }
+
+    logger.info("Wave dispatched", {
+      artifacts: planned.length,
+      strategies: planned.map(({ promptRecord }) => promptRecord.strategy.label),
+    });
+
+    await this.scheduleAlarm();
+    const latest = await this.currentState();
+    if (latest.currentWave === wave) {
+      await this.advanceIfGenerationComplete(latest);
+    }
+    return this.currentState();
+  }
+
+  private async loadWaveInputs(state: OrchestratorState): Promise<WaveInputs> {
+    const spec = await this.loadSpec(state);
+    const ranked = await this.rankPriorArtifacts(state);
+    const exemplars = await this.loadExemplars(ranked);
+    const guidance = activeGuidance(await this.listGuidance(), state.currentWave);
+    // A replayed prior prompt would carry stale guidance, so waves under human guidance are not mutated.
+    const bestPrompt = state.diversity.mutate_best_prompt && guidance.length === 0 ? await this.loadBestPrompt(ranked) : null;
+    return { spec, exemplars, guidance, bestPrompt };
+  }
+
+  // Marks a generation that could not be dispatched as failed, unless a report has settled it meanwhile.
+  private async failDispatchedGeneration(jobId: string): Promise<void> {
+    const state = await this.currentState();
+    const jobKey = `${JOB_PREFIX}${jobId}`;
+    const job = await this.state.storage.get<DispatchedJob>(jobKey);
+    if (!job || job.status !== "pending") {
+      return;
+    }
+    job.status = "failed";
+    releaseReservation(state, job);
+    await this.state.storage.put(jobKey, job);
+    await this.state.storage.put(STATE_KEY, state);
+    await this.recordArtifact(job.wave_number, job.artifact_id, "FAILED", null);
+  }
+
+  private generateRequest(
+    state: OrchestratorState,
+    artifactId: string,
+    metaPrompt: string,
+    strategy: GenerationStrategy,
+    outputFormat: string
+  ): GenerateRequest {
+    return {
+      orchestrator_id: state.projectId,
+      artifact_id: artifactId,
+      meta_prompt: metaPrompt,
+      output_r2_path: `projects/${state.projectId}/wave-${state.currentWave}/${artifactId}.html`,
+      generation_config: strategy.generation_config,
+      output_format: outputFormat,
+    };
+  }
+
+  private async dispatchGeneration(payload: GenerateRequest): Promise<void> {
+    const response = await this.env.GENERATOR.fetch(GENERATOR_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw new Error(`Generator responded with ${response.status}`);
+    }
+  }
+
+  // Sends the stored prompt again, so a retry asks for exactly what the first dispatch did.
+  private async redispatchGeneration(state: OrchestratorState, job: DispatchedJob): Promise<void> {
+    const promptRecord = await this.state.storage.get<PromptRecord>(`${PROMPT_PREFIX}${job.artifact_id}`);
+    const object = promptRecord ? await this.env.R2_BUCKET.get(promptRecord.prompt_r2_path) : null;
+    if (!promptRecord || !object) {
+      throw new Error(`Prompt not found for ${job.artifact_id}`);
+    }
+    const spec = await this.loadSpec(state);
+    await this.dispatchGeneration(
+      this.generateRequest(state, job.artifact_id, await object.text(), promptRecord.strategy, spec.config.output_format)
+    );
+  }
+
+  private async advanceIfGenerationComplete(state: OrchestratorState): Promise<void> {
+    if (state.status !== "GENERATING") {
+      return;
+    }
+
+    const jobs = await this.state.storage.list<DispatchedJob>({ prefix: JOB_PREFIX });
+    const pending = [...jobs.values()].some(
+      (job) => job.type === "generation" && job.wave_number === state.currentWave && job.status === "pending"
+    );
+    if (!pending) {
+      await this.startAnalysis(state);
+    }
+  }
+
+  private async startAnalysis(state: OrchestratorState): Promise<void> {
+    state.status = "ANALYZING";
+    await this.state.storage.put(STATE_KEY, state);
+
+    // Analysis jobs cover a whole wave rather than a single artifact.
+    const job: DispatchedJob = {
+      job_id: `analysis-wave-${state.currentWave}`,
+      artifact_id: `wave-${state.currentWave}`,
+      wave_number: state.currentWave,
+      type: "analysis",
+      status: "pending",
+      retries: 0,
+      created_at: Date.now(),
+      deadline_at: jobDeadline("analysis", state.jobTimeouts, Date.now()),
+    };
+    await this.state.storage.put(`${JOB_PREFIX}${job.job_id}`, job);
+
+    const artifacts = await this.successfulArtifacts(state);
+    if (artifacts.length === 0) {
+      job.status = "complete";
+      await this.state.storage.put(`${JOB_PREFIX}${job.job_id}`, job);
+      await this.completeAnalysis(state, { results: [], learnings_md: "" });
+      return;
+    }
+
+    const logger = createLogger("orchestrator", { projectId: state.projectId, waveNumber: state.currentWave });
+    try {
+      await this.dispatchAnalysis(await this.analyzeRequest(state, artifacts));
+      logger.info("Analysis dispatched", { artifacts: artifacts.length });
+      await this.scheduleAlarm();
+    } catch (error) {
+      logger.error("Failed to dispatch analysis", error instanceof Error ? error : new Error(String(error)));
+      // The evaluator may have reported while it was being called; only an unsettled analysis fails here.
+      const latest = await this.currentState();
+      const stored = await this.state.storage.get<DispatchedJob>(`${JOB_PREFIX}${job.job_id}`);
+      if (latest.status !== "ANALYZING" || latest.currentWave !== job.wave_number || stored?.status !== "pending") {
+        return;
+      }
+      stored.status = "failed";
+      await this.state.storage.put(`${JOB_PREFIX}${job.job_id}`, stored);
+      await this.completeAnalysis(latest, { results: [], learnings_md: "" });
+    }
+  }
+
+  private async successfulArtifacts(state: OrchestratorState): Promise<ArtifactRecord[]> {
+    return (await this.listArtifacts()).filter(
+      (record) => record.wave_number === state.currentWave && record.status === "SUCCESS"
+    );
+  }
+
+  private async analyzeRequest(state: OrchestratorState, artifacts: ArtifactRecord[]): Promise<AnalyzeRequest> {
+    return {
+      orchestrator_id: state.projectId,
+      artifacts: artifacts.map((artifact) => ({ id: artifact.id, r2_path: artifact.r2_path })),
+      scorecard: await this.loadScorecard(state),
+      wave_number: state.currentWave,
+      previous_learnings_md: state.latest_learnings_md,
+    };
+  }
+
+  private async dispatchAnalysis(payload: AnalyzeRequest): Promise<void> {
+    const response = await this.env.EVALUATOR.fetch(EVALUATOR_ANALYZE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw new Error(`Evaluator responded with ${response.status}`);
+    }
+  }
+
+  // Points the alarm at the earliest deadline of a job still waiting on a report.
+  private async scheduleAlarm(): Promise<void> {
+    const jobs = await this.state.storage.list<DispatchedJob>({ prefix: JOB_PREFIX });
+    const deadline = nextDeadline([...jobs.values()]);
+    if (deadline === null) {
+      await this.state.storage.deleteAlarm();
+    } else {
+      await this.state.storage.setAlarm(deadline);
+    }
+  }
+
+  // Stores a wave's evaluation results and learnings, then decides whether to run another wave.
+  private async completeAnalysis(state: OrchestratorState, report: Omit<ReportAnalysisRequest, "wave_number">): Promise<void> {
+    // The judge's spend counts before termination is checked, so maxCost sees it.
+    for (const usage of report.usage ?? []) {
+      addSpend(state, usage.model, usage);
+    }
+
+    for (const result of report.results) {
+      const key = `${ARTIFACT_PREFIX}${result.artifact_id}`;
+      const record = await this.state.storage.get<ArtifactRecord>(key);
+      if (!record) {
+        continue;
+      }
+      record.quality_score = result.quality_score;
+      record.evaluation_details = JSON.stringify(result.details);
+      await this.state.storage.put(key, record);
+    }
+
+    // Fall back to a plain score summary when the analysis did not distill any learnings.
+    state.latest_learnings_md =
+      report.learnings_md || distillLearnings(report.results, state.latest_learnings_md, state.currentWave);
+
+    await this.finishWave(state);
+  }
+
+  private async finishWave(state: OrchestratorState): Promise<void> {
+    const logger = createLogger("orchestrator", { projectId: state.projectId, waveNumber: state.currentWave });
+    const terminalStatus = checkTermination(state, await this.listArtifacts());
+
+    if (terminalStatus) {
+      state.status = terminalStatus;
+      await this.state.storage.put(STATE_KEY, state);
+      logger.info("Run finished", { status: state.status, costUSD: state.costTracker.estimatedCostUSD });
+      return;
+    }
+
+    if (state.terminationConditions.manualApproval) {
+      state.status = "AWAITING_APPROVAL";
+      state.proposedLearningsForReview = await this.buildReview(state);
+      await this.state.storage.put(STATE_KEY, state);
+      logger.info("Wave finished, awaiting approval");
+      return;
+    }
+
+    logger.info("Wave finished, starting next wave");
+    await this.startWave(state);
+  }
+
+  // What a reviewer decides on: the wave's best artifacts and the learnings the next wave would use.
+  private async buildReview(state: OrchestratorState): Promise<ReviewResponse> {
+    const scored = (await this.listArtifacts())
+      .filter((record) => record.wave_number === state.currentWave && record.status === "SUCCESS" && record.quality_score !== null)
+      .sort((a, b) => b.quality_score! - a.quality_score!);
+    return {
+      top_artifacts: scored
+        .slice(0, REVIEW_TOP_ARTIFACTS)
+        .map((record) => ({ r2_path: record.r2_path, quality_score: record.quality_score! })),
+      analysis_summary: state.latest_learnings_md,
+    };
+  }
+
+  private async loadSpec(state: OrchestratorState): Promise<ParsedSpec> {
+    const object = await this.env.R2_BUCKET.get(state.config.specPath);
+    if (!object) {
+      throw new Error(`Spec not found: ${state.config.specPath}`);
+    }
+    const spec = parseSpecMarkdown(await object.text());
+    if (!spec.valid) {
+      throw new Error(`Stored spec is invalid: ${spec.errors.map((issue) => `${issue.path} ${issue.message}`).join("; ")}`);
+    }
+    return spec.value;
+  }
+
+  private async loadScorecard(state: OrchestratorState): Promise<Scorecard> {
+    const object = await this.env.R2_BUCKET.get(state.config.scorecardPath);
+    if (!object) {
+      throw new Error(`Scorecard not found: ${state.config.scorecardPath}`);
+    }
+    return object.json<Scorecard>();
+  }
+
+  // Scored artifacts of earlier waves, best first.
+  private async rankPriorArtifacts(state: OrchestratorState): Promise<ArtifactRecord[]> {
+    return (await this.listArtifacts())
+      .filter((record) => record.status === "SUCCESS" && record.quality_score !== null && record.wave_number < state.currentWave)
+      .sort((a, b) => b.quality_score! - a.quality_score!);
+  }
+
+  // The best ranked artifacts that are still readable from R2.
+  private async loadExemplars(ranked: ArtifactRecord[]): Promise<PromptExemplar[]> {
+    const exemplars: PromptExemplar[] = [];
+    for (const record of ranked) {
+      if (exemplars.length === MAX_EXEMPLARS) {
+        break;
+      }
+      const object = await this.env.R2_BUCKET.get(record.r2_path);
+      if (object) {
+        exemplars.push({ artifactId: record.id, qualityScore: record.quality_score!, content: await object.text() });
+      }
+    }
+    return exemplars;
+  }
+
+  // The prompt behind the best ranked artifact whose prompt is still readable from R2.
+  private async loadBestPrompt(ranked: ArtifactRecord[]): Promise<{ artifactId: string; composed: ComposedPrompt } | null> {
+    for (const record of ranked) {
+      const promptRecord = await this.state.storage.get<PromptRecord>(`${PROMPT_PREFIX}${record.id}`);
+      const object = promptRecord ? await this.env.R2_BUCKET.get(promptRecord.prompt_r2_path) : null;
+      if (promptRecord && object) {
+        return {
+          artifactId: record.id,
+          composed: {
+            prompt: await object.text(),
+            inputs: promptRecord.inputs,
+            estimatedTokens: promptRecord.estimated_tokens,
+            tokenBudget: promptRecord.token_budget,
+          },
+        };
+      }
+    }
+    return null;
+  }
+
+  private async recordArtifact(
+    waveNumber: number,
+    artifactId: string,
+    status: ArtifactRecord["status"],
+    r2Path: string | null
+  ): Promise<void> {
+    const record: ArtifactRecord = {
+      id: artifactId,
+      project_id: this.projectId,
+      wave_number: waveNumber,
+      r2_path: r2Path ?? "",
+      status,
+      quality_score: null,
+      evaluation_details: null,
+      created_at: Date.now(),
+    };
+    await this.state.storage.put(`${ARTIFACT_PREFIX}${artifactId}`, record);
+  }
+
+  private async listGuidance(): Promise<GuidanceOverride[]> {
+    const records = await this.state.storage.list<GuidanceOverride>({ prefix: GUIDANCE_PREFIX });
+    return [...records.values()];
+  }
+
+  private async listArtifacts(): Promise<ArtifactRecord[]> {
+    const records = await this.state.storage.list<ArtifactRecord>({ prefix: ARTIFACT_PREFIX });
+    return [...records.values()];
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import type { ParsedSpec } from "@sral/shared";
+import { composeMetaPrompt, estimateTokens, mutatePrompt, outputFormatInstructions } from "./prompt";
+
+const spec: ParsedSpec = {
+  config: {
+    title: "Data table",
+    version: "1.2.0",
+    author: "SRAL",
+    output_format: "self_contained_html",
+    generator_type: "stateless_worker",
+    generator_count_per_wave: 3,
+  },
+  taskDescription: "Build a searchable data table.",
+};
+
+describe("composeMetaPrompt", () => {
+  it("orders spec, format, guidance, learnings and exemplars and lists every input", () => {
+    const { prompt, inputs, estimatedTokens, tokenBudget } = composeMetaPrompt({
+      spec,
+      learningsMd: "## Principles\n\n- Label every input [a-1]",
+      humanGuidance: "Use a light theme.",
+      exemplars: [{ artifactId: "wave-1-artifact-2", qualityScore: 91.25, content: "<!DOCTYPE html>\n<p>Best</p>" }],
+    });
+
+    expect(prompt).toBe([
+      "# Data table\n\nBuild a searchable data table.",
+      `## Output format\n\n${outputFormatInstructions("self_contained_html")}`,
+      "## Human guidance\n\nFollow this guidance even where it conflicts with the learnings below.\n\nUse a light theme.",
+      "## Learnings from previous waves\n\n## Principles\n\n- Label every input [a-1]",
+      "## Excerpt from a top-scoring artifact (wave-1-artifact-2, score 91.3)\n\n```html\n<!DOCTYPE html>\n<p>Best</p>\n```",
+    ].join("\n\n"));
+    expect(inputs.map((input) => [input.kind, input.source, input.truncated])).toEqual([
+      ["spec", "spec.md v1.2.0", false],
+      ["output_format", "self_contained_html", false],
+      ["human_guidance", "human guidance", false],
+      ["learnings", "latest_learnings_md", false],
+      ["exemplar", "wave-1-artifact-2", false],
+    ]);
+    expect(estimatedTokens).toBe(estimateTokens(prompt));
+    expect(tokenBudget).toBe(3000);
+  });
+
+  it("describes unknown output formats generically and skips empty inputs", () => {
+    const { prompt, inputs } = composeMetaPrompt({
+      spec: { ...spec, config: { ...spec.config, output_format: "markdown" } },
+      learningsMd: "",
+      exemplars: [],
+    });
+
+    expect(prompt).toContain('in the "markdown" output format');
+    expect(inputs.map((input) => input.kind)).toEqual(["spec", "output_format"]);
+  });
+
+  it("describes output formats named like inherited properties generically", () => {
+    const { prompt } = composeMetaPrompt({
+      spec: { ...spec, config: { ...spec.config, output_format: "constructor" } },
+      learningsMd: "",
+      exemplars: [{ artifactId: "wave-1-artifact-1", qualityScore: 80, content: "<p>Best</p>" }],
+    });
+
+    expect(prompt).toContain('in the "constructor" output format');
+    expect(prompt).toContain("```\n<p>Best</p>\n```");
+    expect(prompt).not.toContain("[native code]");
+  });
+
+  it("truncates and drops lower-precedence inputs to stay within the token budget", () => {
+    const learningsMd = Array.from({ length: 200 }, (_, index) => `- Learning number ${index}`).join("\n");
+    const exemplars = [1, 2].map((index) => ({ artifactId: `a-${index}`, qualityScore: 90, content: "<p>x</p>\n".repeat(500) }));
+
+    const { prompt, inputs, estimatedTokens } = composeMetaPrompt({ spec, learningsMd, exemplars, tokenBudget: 400 });
+
+    expect(estimatedTokens).toBeLessThanOrEqual(400);
+    expect(inputs.map((input) => [input.kind, input.truncated])).toEqual([
+      ["spec", false],
+      ["output_format", false],
+      ["learnings", true],
+    ]);
+    expect(prompt).toContain("- Learning number 0\n");
+    expect(prompt.endsWith("\n[truncated]")).toBe(true);
+  });
+
+  it("caps each exemplar excerpt and keeps the format instructions even for oversized specs", () => {
+    const exemplars = [{ artifactId: "a-1", qualityScore: 90, content: "<p>x</p>\n".repeat(1000) }];
+    const withExemplar = composeMetaPrompt({ spec, learningsMd: "", exemplars });
+    expect(withExemplar.inputs[2]).toMatchObject({ kind: "exemplar", truncated: true });
+    expect(withExemplar.inputs[2].tokens).toBeLessThanOrEqual(600);
+    expect(withExemplar.prompt.endsWith("[truncated]\n```")).toBe(true);
+
+    const longSpec = { ...spec, taskDescription: "Requirement.\n".repeat(2000) };
+    const { prompt, inputs, estimatedTokens } = composeMetaPrompt({ spec: longSpec, learningsMd: "", exemplars: [] });
+    expect(estimatedTokens).toBeLessThanOrEqual(3000);
+    expect(inputs.map((input) => [input.kind, input.truncated])).toEqual([
+      ["spec", true],
+      ["output_format", false],
+    ]);
+    expect(prompt.endsWith(outputFormatInstructions("self_contained_html"))).toBe(true);
+  });
+});
+
+describe("mutatePrompt", () => {
+  it("appends a variation directive to the parent prompt and records the parent", () => {
+    const parent = composeMetaPrompt({ spec, learningsMd: "", persona: "You are a minimalist designer.", exemplars: [] });
+    const { prompt, inputs, estimatedTokens, tokenBudget } = mutatePrompt(parent, "wave-1-artifact-2", "Simplify.");
+
+    expect(parent.prompt).toContain("## Style\n\nYou are a minimalist designer.");
+    expect(prompt).toBe(`${parent.prompt}\n\n## Variation\n\nSimplify.`);
+    expect(inputs.map((input) => [input.kind, input.source])).toEqual([
+      ["spec", "spec.md v1.2.0"],
+      ["output_format", "self_contained_html"],
+      ["style", "persona"],
+      ["mutation", "wave-1-artifact-2"],
+    ]);
+    expect(estimatedTokens).toBe(estimateTokens(prompt));
+    expect(tokenBudget).toBe(parent.tokenBudget);
+  });
+});
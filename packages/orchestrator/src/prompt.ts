@@ -0,0 +1,151 @@
+import { ParsedSpec, PromptInput } from "@sral/shared";
+
+// Leaves room in an 8k-token context window for the generated artifact.
+export const DEFAULT_PROMPT_TOKEN_BUDGET = 3000;
+
+// Upper bounds for the snippets taken from prior artifacts.
+export const MAX_EXEMPLARS = 2;
+const MAX_EXEMPLAR_TOKENS = 600;
+
+const TRUNCATION_MARKER = "\n[truncated]";
+
+const OUTPUT_FORMAT_INSTRUCTIONS: ReadonlyMap<string, string> = new Map([
+  [
+    "self_contained_html",
+    [
+      "Respond with a single complete HTML document that starts with <!DOCTYPE html>.",
+      "Inline all CSS and JavaScript; do not load external scripts, stylesheets, fonts or images.",
+      "Do not add any explanation before or after the document.",
+    ].join("\n"),
+  ],
+]);
+
+// Code fence language used when quoting prior artifacts of each output format.
+const FENCE_LANGUAGES: ReadonlyMap<string, string> = new Map([["self_contained_html", "html"]]);
+
+export interface PromptExemplar {
+  artifactId: string;
+  qualityScore: number;
+  content: string;
+}
+
+export interface PromptSources {
+  spec: ParsedSpec;
+  learningsMd: string;
+  humanGuidance?: string;
+  humanGuidanceSource?: string; // Where the guidance came from, e.g. its R2 paths.
+  persona?: string; // Persona or style directive chosen for this artifact.
+  exemplars: PromptExemplar[]; // Best first.
+  tokenBudget?: number;
+}
+
+export interface ComposedPrompt {
+  prompt: string;
+  inputs: PromptInput[];
+  estimatedTokens: number;
+  tokenBudget: number;
+}
+
+/** Rough token count for budgeting; about four characters per token for English text and code. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Cuts text to fit `tokens`, preferring a line break, and marks the cut.
+function truncateToTokens(text: string, tokens: number): string {
+  if (estimateTokens(text) <= tokens) {
+    return text;
+  }
+  const limit = Math.max(0, tokens * 4 - TRUNCATION_MARKER.length);
+  const cut = text.slice(0, limit);
+  const lineBreak = cut.lastIndexOf("\n");
+  return `${lineBreak > limit / 2 ? cut.slice(0, lineBreak) : cut}${TRUNCATION_MARKER}`;
+}
+
+export function outputFormatInstructions(format: string): string {
+  return (
+    OUTPUT_FORMAT_INSTRUCTIONS.get(format) ??
+    `Respond only with the artifact, in the "${format}" output format, without any explanation before or after it.`
+  );
+}
+
+// Fits `body` between `heading` and `footer` within `tokens`, or returns null when nothing fits.
+function fitSection(heading: string, body: string, tokens: number, footer = ""): { text: string; truncated: boolean } | null {
+  const content = body.trim();
+  const available = tokens - estimateTokens(heading + footer);
+  if (!content || available <= 0) {
+    return null;
+  }
+  const fitted = truncateToTokens(content, available);
+  return { text: `${heading}${fitted}${footer}`, truncated: fitted !== content };
+}
+
+/**
+ * Composes the meta-prompt for a generation from the spec, output format
+ * instructions, human guidance, a persona, learnings and excerpts of the best
+ * prior artifacts. The budget is spent in that order of precedence: the format
+ * instructions are always included, the spec is cut only if it alone exceeds
+ * the budget, and later inputs are truncated or dropped once it runs out.
+ * Every input that made it into the prompt is listed for auditing.
+ */
+export function composeMetaPrompt(sources: PromptSources): ComposedPrompt {
+  const tokenBudget = sources.tokenBudget ?? DEFAULT_PROMPT_TOKEN_BUDGET;
+  const { config, taskDescription } = sources.spec;
+  const sections: string[] = [];
+  const inputs: PromptInput[] = [];
+  // Each section also pays for the blank line that separates it from the next.
+  let remaining = tokenBudget;
+
+  const include = (kind: PromptInput["kind"], source: string, section: { text: string; truncated: boolean } | null) => {
+    if (!section) {
+      return;
+    }
+    const tokens = estimateTokens(section.text);
+    sections.push(section.text);
+    inputs.push({ kind, source, tokens, truncated: section.truncated });
+    remaining -= tokens + 1;
+  };
+
+  // The format instructions are reserved first but follow the spec in the prompt.
+  const format = `## Output format\n\n${outputFormatInstructions(config.output_format)}`;
+  include("spec", `spec.md v${config.version}`, fitSection(`# ${config.title}\n\n`, taskDescription, remaining - estimateTokens(format) - 1));
+  include("output_format", config.output_format, { text: format, truncated: false });
+
+  if (sources.humanGuidance) {
+    const heading = "## Human guidance\n\nFollow this guidance even where it conflicts with the learnings below.\n\n";
+    include("human_guidance", sources.humanGuidanceSource ?? "human guidance", fitSection(heading, sources.humanGuidance, remaining));
+  }
+
+  if (sources.persona) {
+    include("style", "persona", fitSection("## Style\n\n", sources.persona, remaining));
+  }
+
+  include("learnings", "latest_learnings_md", fitSection("## Learnings from previous waves\n\n", sources.learningsMd, remaining));
+
+  const fence = FENCE_LANGUAGES.get(config.output_format) ?? "";
+  for (const exemplar of sources.exemplars.slice(0, MAX_EXEMPLARS)) {
+    const heading =
+      `## Excerpt from a top-scoring artifact (${exemplar.artifactId}, score ${exemplar.qualityScore.toFixed(1)})\n\n` +
+      `\`\`\`${fence}\n`;
+    include("exemplar", exemplar.artifactId, fitSection(heading, exemplar.content, Math.min(remaining, MAX_EXEMPLAR_TOKENS), "\n```"));
+  }
+
+  const prompt = sections.join("\n\n");
+  return { prompt, inputs, estimatedTokens: estimateTokens(prompt), tokenBudget };
+}
+
+/**
+ * Varies the prompt that produced a prior artifact by appending a directive to
+ * depart from it in one respect. The directive is short, so it is always kept
+ * even if it takes the prompt slightly over its original budget.
+ */
+export function mutatePrompt(parent: ComposedPrompt, parentArtifactId: string, directive: string): ComposedPrompt {
+  const section = `## Variation\n\n${directive}`;
+  const prompt = `${parent.prompt}\n\n${section}`;
+  return {
+    prompt,
+    inputs: [...parent.inputs, { kind: "mutation", source: parentArtifactId, tokens: estimateTokens(section), truncated: false }],
+    estimatedTokens: estimateTokens(prompt),
+    tokenBudget: parent.tokenBudget,
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_ARTIFACT_PAGE_SIZE, pageArtifacts, parseStatusQuery, summarizeProgress } from "./status";
+import type { ArtifactRecord, DispatchedJob, OrchestratorState } from "@sral/shared";
+
+const createState = (overrides: Partial<OrchestratorState> = {}): OrchestratorState => ({
+  projectId: "proj",
+  status: "GENERATING",
+  currentWave: 2,
+  config: { specPath: "spec.md", scorecardPath: "scorecard.json" },
+  terminationConditions: { maxWaves: 5, maxCost: 1 },
+  diversity: {},
+  jobTimeouts: { generation_timeout_seconds: 300, analysis_timeout_seconds: 900, max_retries: 2 },
+  pricing: {},
+  costTracker: { totalTokens: 1000, estimatedCostUSD: 0.25, reservedUSD: 0.25 },
+  latest_learnings_md: "",
+  ...overrides,
+});
+
+const job = (wave: number, status: DispatchedJob["status"]): DispatchedJob => ({
+  job_id: `${wave}-${status}-${Math.random()}`,
+  artifact_id: "a",
+  wave_number: wave,
+  type: "generation",
+  status,
+  retries: 0,
+  created_at: 0,
+  deadline_at: 0,
+});
+
+const artifact = (id: string, wave: number, status: ArtifactRecord["status"], score: number | null = null): ArtifactRecord => ({
+  id,
+  project_id: "proj",
+  wave_number: wave,
+  r2_path: `${id}.html`,
+  status,
+  quality_score: score,
+  evaluation_details: null,
+  created_at: 0,
+});
+
+describe("parseStatusQuery", () => {
+  it("defaults to the first page of all artifacts", () => {
+    expect(parseStatusQuery(new URLSearchParams())).toEqual({
+      valid: true,
+      value: { wave: undefined, offset: 0, limit: DEFAULT_ARTIFACT_PAGE_SIZE },
+    });
+    expect(parseStatusQuery(new URLSearchParams("wave=2&status=FAILED&offset=10&limit=5"))).toEqual({
+      valid: true,
+      value: { wave: 2, status: "FAILED", offset: 10, limit: 5 },
+    });
+  });
+
+  it("reports invalid parameters", () => {
+    expect(parseStatusQuery(new URLSearchParams("wave=0&limit=1000&offset=-1&status=DONE"))).toEqual({
+      valid: false,
+      errors: [
+        { path: "wave", message: "must be an integer >= 1, got 0" },
+        { path: "offset", message: "must be an integer >= 0, got -1" },
+        { path: "limit", message: "must be an integer from 1 to 200, got 1000" },
+        { path: "status", message: 'must be "SUCCESS" or "FAILED", got DONE' },
+      ],
+    });
+  });
+});
+
+describe("summarizeProgress", () => {
+  it("counts jobs per wave and reports the best score and remaining budget", () => {
+    const jobs = [job(1, "complete"), job(1, "failed"), job(1, "timed_out"), job(2, "pending"), job(2, "complete")];
+    const artifacts = [artifact("a", 1, "SUCCESS", 72), artifact("b", 1, "SUCCESS", 64), artifact("c", 2, "FAILED")];
+
+    expect(summarizeProgress(createState(), jobs, artifacts)).toEqual({
+      current_wave: 2,
+      waves: [
+        { wave_number: 1, pending: 0, complete: 1, failed: 2 },
+        { wave_number: 2, pending: 1, complete: 1, failed: 0 },
+      ],
+      best_score: 72,
+      cost: { estimated_usd: 0.25, reserved_usd: 0.25, max_usd: 1, remaining_usd: 0.5 },
+      active_termination_condition: null,
+    });
+  });
+
+  it("names the condition that ended the run", () => {
+    const progress = summarizeProgress(createState({ status: "COMPLETED_MAX_WAVES", terminationConditions: {} }), [], []);
+    expect(progress.active_termination_condition).toBe("COMPLETED_MAX_WAVES");
+    expect(progress.best_score).toBeNull();
+    expect(progress.cost.remaining_usd).toBeNull();
+  });
+});
+
+describe("pageArtifacts", () => {
+  const artifacts = [
+    artifact("wave-2-artifact-1", 2, "SUCCESS"),
+    artifact("wave-1-artifact-10", 1, "SUCCESS"),
+    artifact("wave-1-artifact-2", 1, "FAILED"),
+    artifact("wave-1-artifact-1", 1, "SUCCESS"),
+  ];
+
+  it("orders by wave and artifact number and pages through the matches", () => {
+    const first = pageArtifacts(artifacts, { offset: 0, limit: 3 });
+    expect(first.items.map((item) => item.id)).toEqual(["wave-1-artifact-1", "wave-1-artifact-2", "wave-1-artifact-10"]);
+    expect(first).toMatchObject({ total: 4, next_offset: 3 });
+    expect(pageArtifacts(artifacts, { offset: 3, limit: 3 })).toMatchObject({ total: 4, next_offset: null });
+  });
+
+  it("filters by wave and status", () => {
+    const page = pageArtifacts(artifacts, { wave: 1, status: "SUCCESS", offset: 0, limit: 10 });
+    expect(page.items.map((item) => item.id)).toEqual(["wave-1-artifact-1", "wave-1-artifact-10"]);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  ArtifactRecord,
+  DispatchedJob,
+  OrchestratorState,
+  RunProgress,
+  StatusResponse,
+  ValidationIssue,
+  ValidationResult,
+  WaveProgress,
+} from "@sral/shared";
+import { TerminalStatus } from "./termination.js";
+
+export const DEFAULT_ARTIFACT_PAGE_SIZE = 50;
+export const MAX_ARTIFACT_PAGE_SIZE = 200;
+
+export interface StatusQuery {
+  wave?: number;
+  status?: ArtifactRecord["status"];
+  offset: number;
+  limit: number;
+}
+
+/** Reads the artifact filters and page from the query string of a status request. */
+export function parseStatusQuery(params: URLSearchParams): ValidationResult<StatusQuery> {
+  const issues: ValidationIssue[] = [];
+  const integer = (key: string, min: number, max?: number): number | undefined => {
+    const raw = params.get(key);
+    if (raw === null) {
+      return undefined;
+    }
+    const value = Number(raw);
+    if (!/^\d+$/.test(raw) || value < min || (max !== undefined && value > max)) {
+      const range = max === undefined ? `>= ${min}` : `from ${min} to ${max}`;
+      issues.push({ path: key, message: `must be an integer ${range}, got ${raw}` });
+      return undefined;
+    }
+    return value;
+  };
+
+  const query: StatusQuery = {
+    wave: integer("wave", 1),
+    offset: integer("offset", 0) ?? 0,
+    limit: integer("limit", 1, MAX_ARTIFACT_PAGE_SIZE) ?? DEFAULT_ARTIFACT_PAGE_SIZE,
+  };
+  const status = params.get("status");
+  if (status !== null) {
+    if (status === "SUCCESS" || status === "FAILED") {
+      query.status = status;
+    } else {
+      issues.push({ path: "status", message: `must be "SUCCESS" or "FAILED", got ${status}` });
+    }
+  }
+
+  return issues.length === 0 ? { valid: true, value: query } : { valid: false, errors: issues };
+}
+
+/** Derives per-wave job counts, the best score and spend against the budget from the stored run. */
+export function summarizeProgress(state: OrchestratorState, jobs: DispatchedJob[], artifacts: ArtifactRecord[]): RunProgress {
+  const waves: WaveProgress[] = [];
+  for (let wave = 1; wave <= state.currentWave; wave++) {
+    const counts: WaveProgress = { wave_number: wave, pending: 0, complete: 0, failed: 0 };
+    for (const job of jobs) {
+      if (job.wave_number === wave) {
+        counts[job.status === "timed_out" ? "failed" : job.status]++;
+      }
+    }
+    waves.push(counts);
+  }
+
+  const scores = artifacts.flatMap((artifact) => (artifact.quality_score === null ? [] : [artifact.quality_score]));
+  const maxCost = state.terminationConditions.maxCost ?? null;
+  const spent = state.costTracker.estimatedCostUSD;
+  const reserved = state.costTracker.reservedUSD;
+
+  return {
+    current_wave: state.currentWave,
+    waves,
+    best_score: scores.length > 0 ? Math.max(...scores) : null,
+    cost: {
+      estimated_usd: spent,
+      reserved_usd: reserved,
+      max_usd: maxCost,
+      remaining_usd: maxCost === null ? null : Math.max(0, maxCost - spent - reserved),
+    },
+    active_termination_condition: state.status.startsWith("COMPLETED_") ? (state.status as TerminalStatus) : null,
+  };
+}
+
+/** Filters the artifacts and returns the requested page, ordered by wave and then artifact number. */
+export function pageArtifacts(artifacts: ArtifactRecord[], query: StatusQuery): StatusResponse["artifacts"] {
+  const matching = artifacts
+    .filter((artifact) => query.wave === undefined || artifact.wave_number === query.wave)
+    .filter((artifact) => query.status === undefined || artifact.status === query.status)
+    .sort((a, b) => a.wave_number - b.wave_number || a.id.localeCompare(b.id, undefined, { numeric: true }));
+  const end = query.offset + query.limit;
+
+  return {
+    items: matching.slice(query.offset, end),
+    total: matching.length,
+    offset: query.offset,
+    limit: query.limit,
+    next_offset: end < matching.length ? end : null,
+  };
+}
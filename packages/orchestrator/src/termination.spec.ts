@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { bestScoresByWave, checkTermination } from "./termination";
+import type { ArtifactRecord, OrchestratorState, TerminationConditions } from "@sral/shared";
+
+const createState = (
+  terminationConditions: TerminationConditions,
+  overrides: Partial<OrchestratorState> = {}
+): OrchestratorState => ({
+  projectId: "proj",
+  status: "ANALYZING",
+  currentWave: 1,
+  config: { specPath: "spec.md", scorecardPath: "scorecard.json" },
+  terminationConditions,
+  costTracker: { totalTokens: 0, estimatedCostUSD: 0, reservedUSD: 0 },
+  latest_learnings_md: "",
+  ...overrides,
+});
+
+const artifact = (wave: number, score: number | null, status: ArtifactRecord["status"] = "SUCCESS"): ArtifactRecord => ({
+  id: `wave-${wave}-${Math.random()}`,
+  project_id: "proj",
+  wave_number: wave,
+  r2_path: "a.html",
+  status,
+  quality_score: score,
+  evaluation_details: null,
+  created_at: 0,
+});
+
+describe("bestScoresByWave", () => {
+  it("returns the best score for every wave, null when nothing was scored", () => {
+    const best = bestScoresByWave([artifact(1, 40), artifact(1, 60), artifact(3, 50), artifact(2, null)], 3);
+    expect(best).toEqual([null, 60, null, 50]);
+  });
+});
+
+describe("checkTermination", () => {
+  it("continues when no condition trips", () => {
+    expect(checkTermination(createState({ maxWaves: 3 }), [artifact(1, 50)])).toBeNull();
+  });
+
+  it("stops at maxWaves", () => {
+    expect(checkTermination(createState({ maxWaves: 2 }, { currentWave: 2 }), [])).toBe("COMPLETED_MAX_WAVES");
+  });
+
+  it("stops when spend reaches maxCost", () => {
+    const state = createState({ maxCost: 1 }, { costTracker: { totalTokens: 10, estimatedCostUSD: 1 } });
+    expect(checkTermination(state, [])).toBe("COMPLETED_BUDGET_EXCEEDED");
+  });
+
+  it("counts only successful artifacts at or above the viable threshold", () => {
+    const artifacts = [artifact(1, 70), artifact(1, 69), artifact(1, 95, "FAILED")];
+    expect(checkTermination(createState({ minViableCandidates: 2 }), artifacts)).toBeNull();
+    expect(checkTermination(createState({ minViableCandidates: 1 }), artifacts)).toBe("COMPLETED_VIABLE_CANDIDATES");
+    expect(checkTermination(createState({ minViableCandidates: 2, viableScoreThreshold: 60 }), artifacts))
+      .toBe("COMPLETED_VIABLE_CANDIDATES");
+  });
+
+  it("detects a quality plateau over the configured look-back window", () => {
+    const conditions = { qualityPlateau: { waves: 2, delta: 5 } };
+    const artifacts = [artifact(1, 60), artifact(2, 62), artifact(3, 64)];
+
+    expect(checkTermination(createState(conditions, { currentWave: 2 }), artifacts)).toBeNull();
+    expect(checkTermination(createState(conditions, { currentWave: 3 }), artifacts)).toBe("COMPLETED_QUALITY_PLATEAU");
+    expect(checkTermination(createState(conditions, { currentWave: 3 }), [...artifacts, artifact(3, 70)])).toBeNull();
+  });
+
+  it("prefers the budget over other conditions", () => {
+    const state = createState(
+      { maxWaves: 1, maxCost: 1 },
+      { costTracker: { totalTokens: 10, estimatedCostUSD: 2 } }
+    );
+    expect(checkTermination(state, [])).toBe("COMPLETED_BUDGET_EXCEEDED");
+  });
+});
@@ -0,0 +1,64 @@
+import { ArtifactRecord, OrchestratorState, TerminationConditions } from "@sral/shared";
+
+export type TerminalStatus = Extract<OrchestratorState["status"], `COMPLETED_${string}`>;
+
+// Applied when a run does not override them, so every loop is bounded.
+export const DEFAULT_TERMINATION_CONDITIONS: TerminationConditions = {
+  maxWaves: 5,
+};
+
+export const DEFAULT_VIABLE_SCORE_THRESHOLD = 70;
+
+/**
+ * Returns the best quality score achieved in each wave, indexed by wave number.
+ * Waves without any scored artifact map to null.
+ */
+export function bestScoresByWave(artifacts: ArtifactRecord[], throughWave: number): Array<number | null> {
+  const best: Array<number | null> = new Array(throughWave + 1).fill(null);
+  for (const artifact of artifacts) {
+    if (artifact.quality_score === null || artifact.wave_number > throughWave) {
+      continue;
+    }
+    const current = best[artifact.wave_number];
+    best[artifact.wave_number] = current === null ? artifact.quality_score : Math.max(current, artifact.quality_score);
+  }
+  return best;
+}
+
+/**
+ * Decides whether the run should stop after the current wave. Conditions are
+ * checked in priority order: budget, viable candidates, quality plateau and
+ * finally the wave limit.
+ */
+export function checkTermination(state: OrchestratorState, artifacts: ArtifactRecord[]): TerminalStatus | null {
+  const conditions = state.terminationConditions;
+
+  if (conditions.maxCost !== undefined && state.costTracker.estimatedCostUSD >= conditions.maxCost) {
+    return "COMPLETED_BUDGET_EXCEEDED";
+  }
+
+  if (conditions.minViableCandidates !== undefined) {
+    const threshold = conditions.viableScoreThreshold ?? DEFAULT_VIABLE_SCORE_THRESHOLD;
+    const viable = artifacts.filter(
+      (artifact) => artifact.status === "SUCCESS" && artifact.quality_score !== null && artifact.quality_score >= threshold
+    );
+    if (viable.length >= conditions.minViableCandidates) {
+      return "COMPLETED_VIABLE_CANDIDATES";
+    }
+  }
+
+  if (conditions.qualityPlateau && state.currentWave > conditions.qualityPlateau.waves) {
+    const best = bestScoresByWave(artifacts, state.currentWave);
+    const bestBefore = Math.max(0, ...best.slice(0, state.currentWave - conditions.qualityPlateau.waves + 1).map((score) => score ?? 0));
+    const bestNow = Math.max(0, ...best.map((score) => score ?? 0));
+    if (bestNow - bestBefore < conditions.qualityPlateau.delta) {
+      return "COMPLETED_QUALITY_PLATEAU";
+    }
+  }
+
+  if (conditions.maxWaves !== undefined && state.currentWave >= conditions.maxWaves) {
+    return "COMPLETED_MAX_WAVES";
+  }
+
+  return null;
+}
@@ -1,5 +1,24 @@
 // Export all schemas and types
 export * from './types/schemas.js';
+export * from './types/validation.js';
+export * from './types/llm.js';
+
+// Export runtime validation of API contracts
+export * from './validation/contracts.js';
+
+// Export spec.md parsing
+export * from './spec/parser.js';
+
+// Export static scorecard checks
+export * from './scorecard/validator.js';
+
+// Export learnings distillation
+export * from './learnings/distill.js';
+
+// Export LLM providers and pricing
+export * from './llm/providers.js';
+export * from './llm/pricing.js';
 
 // Export logging utilities
-export * from './utils/logging.js';
\ No newline at end of file
+export * from './utils/logging.js';
+export * from './utils/encoding.js';
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { EvaluationResult } from '../types/schemas.js';
+import { distillLearnings } from './distill.js';
+
+interface Feedback {
+  strengths?: string[];
+  improvements?: string[];
+  lint?: { ruleId: string; message: string }[];
+}
+
+const result = (artifact_id: string, quality_score: number, { strengths = [], improvements = [], lint = [] }: Feedback = {}): EvaluationResult => ({
+  artifact_id,
+  quality_score,
+  details: {
+    linter: {
+      score: 100,
+      details: { messages: lint.map((issue) => ({ line: 1, column: 1, severity: 'error', ...issue })) },
+    },
+    llm_evaluation: { score: quality_score, details: { strengths, improvements } },
+  },
+});
+
+const wave = [
+  result('a-1', 92, { strengths: ['Filters the table as you type'], improvements: ['Add labels to inputs'] }),
+  result('a-2', 85, { strengths: ['filters the table as you type!', 'Sortable columns'] }),
+  result('a-3', 70, { strengths: ['Uses a dark theme'] }),
+  result('a-4', 55, {
+    improvements: ['Add labels to inputs', 'Handle empty results'],
+    lint: [{ ruleId: 'semi', message: 'Missing semicolon' }],
+  }),
+  result('a-5', 40, {
+    improvements: ['Handle empty results.'],
+    lint: [{ ruleId: 'semi', message: 'Missing semicolon' }, { ruleId: 'no-unused-vars', message: "'x' is defined but never used" }],
+  }),
+];
+
+describe('distillLearnings', () => {
+  it('contrasts the top and bottom artifacts of a wave with citations', () => {
+    const learnings = distillLearnings(wave, '', 1);
+
+    expect(learnings).toContain('## Wave 1\n\n- Scores: best 92.0 (a-1), worst 40.0 (a-5), mean 68.4 across 5 artifacts');
+    expect(learnings).toContain([
+      '### What the top artifacts did well',
+      '',
+      '- Filters the table as you type [a-1, a-2]',
+      '- Sortable columns [a-2]',
+    ].join('\n'));
+    expect(learnings).not.toContain('Uses a dark theme');
+    expect(learnings).toContain([
+      '### What held the bottom artifacts back',
+      '',
+      '- Handle empty results [a-4, a-5]',
+      '- linter `semi`: Missing semicolon [a-4, a-5]',
+      '- Add labels to inputs [a-4]',
+      "- linter `no-unused-vars`: 'x' is defined but never used [a-5]",
+    ].join('\n'));
+  });
+
+  it('ranks deduplicated principles by how many artifacts support them', () => {
+    const learnings = distillLearnings(wave, '', 1);
+
+    expect(learnings.startsWith([
+      '## Principles',
+      '',
+      '- Add labels to inputs [a-1, a-4]',
+      '- Handle empty results [a-4, a-5]',
+      '- Avoid linter `semi` issues [a-4, a-5]',
+      '- Avoid linter `no-unused-vars` issues [a-5]',
+    ].join('\n'))).toBe(true);
+  });
+
+  it('ignores rules that trip the top half as often as the bottom half', () => {
+    const lint = [{ ruleId: 'semi', message: 'Missing semicolon' }];
+    const learnings = distillLearnings([result('b-1', 90, { lint }), result('b-2', 50, { lint })], '', 1);
+
+    expect(learnings).not.toContain('semi');
+  });
+
+  it('merges principles into earlier learnings and keeps recent waves', () => {
+    let learnings = '';
+    for (let number = 1; number <= 5; number++) {
+      learnings = distillLearnings([
+        result(`w${number}-1`, 80),
+        result(`w${number}-2`, 40, { improvements: ['Add labels to inputs'] }),
+      ], learnings);
+    }
+
+    expect(learnings).toContain('- Add labels to inputs [w5-2, w4-2, w3-2, w2-2, w1-2]');
+    expect(learnings.match(/Add labels to inputs/g)).toHaveLength(4);
+    expect(learnings).not.toContain('## Wave 2');
+    expect(learnings).toContain('## Wave 3');
+    expect(learnings).toContain('## Wave 5');
+  });
+
+  it('keeps wave sections written by the orchestrator fallback', () => {
+    const previous = '## Wave 1\n\n- No artifacts could be evaluated.';
+    const learnings = distillLearnings([], previous, 2);
+
+    expect(learnings).toBe(`${previous}\n\n## Wave 2\n\n- No artifacts could be evaluated.`);
+  });
+
+  it('never exceeds the size limit', () => {
+    const improvements = Array.from({ length: 40 }, (_, index) => `Improvement number ${index} ${'x'.repeat(300)}`);
+    let learnings = '';
+    for (let number = 1; number <= 4; number++) {
+      learnings = distillLearnings([result(`w${number}-1`, 90), result(`w${number}-2`, 10, { improvements })], learnings, number);
+    }
+
+    expect(learnings.length).toBeLessThanOrEqual(4000);
+    expect(learnings).toContain('## Wave 4');
+    expect(learnings).toMatch(/- Improvement number 0 x+\.\.\. \[w4-2/);
+  });
+});
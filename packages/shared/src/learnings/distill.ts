@@ -0,0 +1,235 @@
+import { EvaluationResult } from '../types/schemas.js';
+
+// Bounds that keep the learnings small enough to carry into every meta-prompt.
+const MAX_LEARNINGS_LENGTH = 4000;
+const MAX_WAVE_SECTIONS = 3;
+const MAX_PRINCIPLES = 10;
+const MAX_ITEMS_PER_LIST = 5;
+const MAX_CITATIONS = 5;
+const MAX_ITEM_LENGTH = 200;
+
+const PRINCIPLES_HEADING = '## Principles';
+
+interface Finding {
+  text: string;
+  citations: string[]; // Artifact ids, most recent wave first.
+}
+
+interface WaveSection {
+  waveNumber: number;
+  body: string;
+}
+
+interface LintFinding {
+  testType: string;
+  ruleId: string;
+  message: string;
+}
+
+// Findings grouped by a normalized key so rewordings in case or punctuation collapse into one.
+class Findings {
+  private readonly entries = new Map<string, Finding>();
+
+  add(text: string, artifactId?: string, key = normalize(text)): void {
+    if (!key) return;
+    const finding = this.entries.get(key) ?? { text: clip(text), citations: [] };
+    if (artifactId && !finding.citations.includes(artifactId)) {
+      finding.citations.push(artifactId);
+    }
+    this.entries.set(key, finding);
+  }
+
+  // Most-cited first; ties keep the order findings were first added in.
+  ranked(limit: number): Finding[] {
+    return [...this.entries.values()]
+      .sort((a, b) => b.citations.length - a.citations.length)
+      .slice(0, limit)
+      .map((finding) => ({ ...finding, citations: finding.citations.slice(0, MAX_CITATIONS) }));
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function clip(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > MAX_ITEM_LENGTH ? `${line.slice(0, MAX_ITEM_LENGTH - 3)}...` : line;
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+function llmFeedback(result: EvaluationResult, field: 'strengths' | 'improvements'): string[] {
+  return strings(result.details?.llm_evaluation?.details?.[field]);
+}
+
+// Issues reported by the rule-based tests (linter, html_validation, accessibility), one per rule.
+function lintFindings(result: EvaluationResult): Map<string, LintFinding> {
+  const findings = new Map<string, LintFinding>();
+  for (const [testType, test] of Object.entries(result.details ?? {})) {
+    const messages = test?.details?.messages;
+    if (!Array.isArray(messages)) continue;
+    for (const message of messages) {
+      if (typeof message?.ruleId !== 'string' || typeof message.message !== 'string') continue;
+      const key = `${testType}/${message.ruleId}`;
+      if (!findings.has(key)) {
+        findings.set(key, { testType, ruleId: message.ruleId, message: message.message });
+      }
+    }
+  }
+  return findings;
+}
+
+function formatFinding({ text, citations }: Finding): string {
+  return citations.length > 0 ? `- ${text} [${citations.join(', ')}]` : `- ${text}`;
+}
+
+function parseFinding(line: string): Finding | null {
+  const match = line.match(/^- (.+?)(?: \[([^\]]+)\])?$/);
+  if (!match) return null;
+  return { text: match[1], citations: match[2] ? match[2].split(',').map((id) => id.trim()).filter(Boolean) : [] };
+}
+
+function parsePrevious(previous: string): { principles: Finding[]; waves: WaveSection[] } {
+  const principles: Finding[] = [];
+  const waves: WaveSection[] = [];
+
+  for (const section of previous.split(/^(?=## )/m).map((part) => part.trim())) {
+    if (section.startsWith(PRINCIPLES_HEADING)) {
+      for (const line of section.split('\n').slice(1)) {
+        const finding = parseFinding(line.trim());
+        if (finding) principles.push(finding);
+      }
+      continue;
+    }
+    const wave = section.match(/^## Wave (\d+)/);
+    if (wave) {
+      waves.push({ waveNumber: Number(wave[1]), body: section });
+    }
+  }
+
+  return { principles, waves };
+}
+
+function lintPrinciple({ testType, ruleId }: LintFinding): string {
+  return `Avoid ${testType} \`${ruleId}\` issues`;
+}
+
+/**
+ * Builds one wave's section: a score overview, what set the top half of the
+ * wave apart and what held the bottom half back, with citations to artifact
+ * ids. Also returns the wave's candidate principles.
+ */
+function analyzeWave(waveNumber: number, results: EvaluationResult[]): { section: WaveSection; principles: Findings } {
+  const principles = new Findings();
+  const lines = [`## Wave ${waveNumber}`, ''];
+
+  if (results.length === 0) {
+    lines.push('- No artifacts could be evaluated.');
+    return { section: { waveNumber, body: lines.join('\n') }, principles };
+  }
+
+  const ranked = [...results].sort((a, b) => b.quality_score - a.quality_score);
+  const best = ranked[0];
+  const worst = ranked[ranked.length - 1];
+  const mean = ranked.reduce((sum, result) => sum + result.quality_score, 0) / ranked.length;
+  lines.push(
+    `- Scores: best ${best.quality_score.toFixed(1)} (${best.artifact_id}), worst ${worst.quality_score.toFixed(1)} ` +
+      `(${worst.artifact_id}), mean ${mean.toFixed(1)} across ${ranked.length} artifact${ranked.length === 1 ? '' : 's'}`
+  );
+
+  // With an odd count the median artifact belongs to neither half.
+  const half = Math.floor(ranked.length / 2);
+  const top = ranked.slice(0, Math.max(1, half));
+  const bottom = ranked.slice(ranked.length - half);
+
+  const strengths = new Findings();
+  for (const result of top) {
+    for (const strength of llmFeedback(result, 'strengths')) {
+      strengths.add(strength, result.artifact_id);
+    }
+  }
+
+  const setbacks = new Findings();
+  for (const result of bottom) {
+    for (const improvement of llmFeedback(result, 'improvements')) {
+      setbacks.add(improvement, result.artifact_id);
+    }
+  }
+  for (const result of results) {
+    for (const improvement of llmFeedback(result, 'improvements')) {
+      principles.add(improvement, result.artifact_id);
+    }
+  }
+
+  // Rules that tripped more of the bottom half than the top half.
+  const topLint = top.map(lintFindings);
+  const bottomLint = bottom.map(lintFindings);
+  for (const [index, findings] of bottomLint.entries()) {
+    for (const [key, finding] of findings) {
+      const inTop = topLint.filter((lint) => lint.has(key)).length;
+      const inBottom = bottomLint.filter((lint) => lint.has(key)).length;
+      if (inBottom <= inTop) continue;
+      const artifactId = bottom[index].artifact_id;
+      setbacks.add(`${finding.testType} \`${finding.ruleId}\`: ${finding.message}`, artifactId, key);
+      principles.add(lintPrinciple(finding), artifactId);
+    }
+  }
+
+  const topStrengths = strengths.ranked(MAX_ITEMS_PER_LIST);
+  if (topStrengths.length > 0) {
+    lines.push('', '### What the top artifacts did well', '', ...topStrengths.map(formatFinding));
+  }
+  const bottomSetbacks = setbacks.ranked(MAX_ITEMS_PER_LIST);
+  if (bottomSetbacks.length > 0) {
+    lines.push('', '### What held the bottom artifacts back', '', ...bottomSetbacks.map(formatFinding));
+  }
+
+  return { section: { waveNumber, body: lines.join('\n') }, principles };
+}
+
+function render(principles: Finding[], waves: WaveSection[]): string {
+  const sections = waves.map((wave) => wave.body);
+  if (principles.length > 0) {
+    sections.unshift([PRINCIPLES_HEADING, '', ...principles.map(formatFinding)].join('\n'));
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Distills a wave's evaluation results into Markdown learnings for the next
+ * meta-prompt, merged into the learnings of earlier waves. The document keeps
+ * a deduplicated list of principles ranked by how many artifacts support them,
+ * followed by a section for each recent wave, and never exceeds
+ * MAX_LEARNINGS_LENGTH characters.
+ */
+export function distillLearnings(results: EvaluationResult[], previous = '', waveNumber?: number): string {
+  const earlier = parsePrevious(previous);
+  const currentWave = waveNumber ?? Math.max(0, ...earlier.waves.map((wave) => wave.waveNumber)) + 1;
+  const { section, principles: wavePrinciples } = analyzeWave(currentWave, results);
+
+  // Principles from this wave take precedence on ties, and their citations come before earlier ones.
+  const principles = new Findings();
+  for (const finding of [...wavePrinciples.ranked(Infinity), ...earlier.principles]) {
+    principles.add(finding.text);
+    for (const artifactId of finding.citations) {
+      principles.add(finding.text, artifactId);
+    }
+  }
+
+  const waves = [...earlier.waves.filter((wave) => wave.waveNumber !== currentWave), section].slice(-MAX_WAVE_SECTIONS);
+  let ranked = principles.ranked(MAX_PRINCIPLES);
+
+  let learnings = render(ranked, waves);
+  while (learnings.length > MAX_LEARNINGS_LENGTH && waves.length > 1) {
+    waves.shift();
+    learnings = render(ranked, waves);
+  }
+  while (learnings.length > MAX_LEARNINGS_LENGTH && ranked.length > 0) {
+    ranked = ranked.slice(0, -1);
+    learnings = render(ranked, waves);
+  }
+  return learnings.length > MAX_LEARNINGS_LENGTH ? learnings.slice(0, MAX_LEARNINGS_LENGTH) : learnings;
+}
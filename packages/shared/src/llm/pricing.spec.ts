@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MODEL_PRICING, FALLBACK_MODEL_PRICING, mergeUsage, priceUsage, resolvePricing } from './pricing.js';
+
+const MODEL = '@cf/meta/llama-3-8b-instruct';
+
+describe('priceUsage', () => {
+  it('prices prompt and completion tokens at their own rates', () => {
+    expect(priceUsage(MODEL, { prompt_tokens: 1_000_000, completion_tokens: 0 })).toBeCloseTo(0.282);
+    expect(priceUsage(MODEL, { prompt_tokens: 0, completion_tokens: 2_000_000 })).toBeCloseTo(1.654);
+  });
+
+  it('prefers the run overrides', () => {
+    const overrides = { [MODEL]: { prompt_usd_per_million: 1, completion_usd_per_million: 2 } };
+    expect(priceUsage(MODEL, { prompt_tokens: 500_000, completion_tokens: 500_000 }, overrides)).toBeCloseTo(1.5);
+  });
+});
+
+describe('resolvePricing', () => {
+  it('charges unknown models the highest listed rates', () => {
+    expect(resolvePricing('@cf/unknown/model')).toEqual(FALLBACK_MODEL_PRICING);
+    expect(resolvePricing(undefined)).toEqual(FALLBACK_MODEL_PRICING);
+    for (const pricing of Object.values(DEFAULT_MODEL_PRICING)) {
+      expect(FALLBACK_MODEL_PRICING.prompt_usd_per_million).toBeGreaterThanOrEqual(pricing.prompt_usd_per_million);
+      expect(FALLBACK_MODEL_PRICING.completion_usd_per_million).toBeGreaterThanOrEqual(pricing.completion_usd_per_million);
+    }
+  });
+
+  it('charges models named like inherited properties the highest listed rates', () => {
+    expect(resolvePricing('toString')).toEqual(FALLBACK_MODEL_PRICING);
+    expect(resolvePricing('constructor', {})).toEqual(FALLBACK_MODEL_PRICING);
+    expect(priceUsage('toString', { prompt_tokens: 1_000_000, completion_tokens: 0 })).toBeCloseTo(FALLBACK_MODEL_PRICING.prompt_usd_per_million);
+  });
+});
+
+describe('mergeUsage', () => {
+  it('sums usage per model', () => {
+    expect(
+      mergeUsage([
+        { model: 'a', prompt_tokens: 1, completion_tokens: 2 },
+        { model: 'b', prompt_tokens: 5, completion_tokens: 5 },
+        { model: 'a', prompt_tokens: 3, completion_tokens: 4 },
+      ])
+    ).toEqual([
+      { model: 'a', prompt_tokens: 4, completion_tokens: 6 },
+      { model: 'b', prompt_tokens: 5, completion_tokens: 5 },
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { CostMetrics, ModelPricing, ModelUsage } from '../types/schemas.js';
+
+// Workers AI list prices of the text models the workers call.
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  '@cf/meta/llama-3-8b-instruct': { prompt_usd_per_million: 0.282, completion_usd_per_million: 0.827 },
+  '@cf/meta/llama-3.1-8b-instruct': { prompt_usd_per_million: 0.282, completion_usd_per_million: 0.827 },
+  '@cf/meta/llama-3.3-70b-instruct-fp8-fast': { prompt_usd_per_million: 0.293, completion_usd_per_million: 2.253 },
+  '@cf/mistral/mistral-7b-instruct-v0.1': { prompt_usd_per_million: 0.11, completion_usd_per_million: 0.19 },
+};
+
+// Models without a known price are charged the highest listed rates, so a budget is never underestimated.
+export const FALLBACK_MODEL_PRICING: ModelPricing = {
+  prompt_usd_per_million: Math.max(...Object.values(DEFAULT_MODEL_PRICING).map((pricing) => pricing.prompt_usd_per_million)),
+  completion_usd_per_million: Math.max(...Object.values(DEFAULT_MODEL_PRICING).map((pricing) => pricing.completion_usd_per_million)),
+};
+
+/** The price of a model, preferring the run's overrides over the defaults. */
+export function resolvePricing(model: string | undefined, overrides: Record<string, ModelPricing> = {}): ModelPricing {
+  if (model === undefined) {
+    return FALLBACK_MODEL_PRICING;
+  }
+  if (Object.hasOwn(overrides, model)) {
+    return overrides[model];
+  }
+  return Object.hasOwn(DEFAULT_MODEL_PRICING, model) ? DEFAULT_MODEL_PRICING[model] : FALLBACK_MODEL_PRICING;
+}
+
+/** Converts token usage of one model to USD. */
+export function priceUsage(model: string | undefined, usage: CostMetrics, overrides?: Record<string, ModelPricing>): number {
+  const pricing = resolvePricing(model, overrides);
+  return (usage.prompt_tokens * pricing.prompt_usd_per_million + usage.completion_tokens * pricing.completion_usd_per_million) / 1_000_000;
+}
+
+/** Sums usage per model, in the order models first appear. */
+export function mergeUsage(usages: ModelUsage[]): ModelUsage[] {
+  const merged = new Map<string, ModelUsage>();
+  for (const { model, prompt_tokens, completion_tokens } of usages) {
+    const entry = merged.get(model) ?? { model, prompt_tokens: 0, completion_tokens: 0 };
+    entry.prompt_tokens += prompt_tokens;
+    entry.completion_tokens += completion_tokens;
+    merged.set(model, entry);
+  }
+  return [...merged.values()];
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  classifyLlmError,
+  createFakeProvider,
+  createLlmProvider,
+  createOpenAiCompatibleProvider,
+  createWorkersAiProvider,
+} from './providers.js';
+
+const MODEL = '@cf/meta/llama-3-8b-instruct';
+
+describe('createWorkersAiProvider', () => {
+  it('passes the prompt and sampling settings through and reads text and usage', async () => {
+    const ai = { run: vi.fn(async () => ({ response: '<p>Hi</p>', usage: { prompt_tokens: 12, completion_tokens: 4 } })) };
+    const result = await createWorkersAiProvider(ai).complete({ model: MODEL, prompt: 'Build it.', temperature: 0.5 });
+
+    expect(ai.run).toHaveBeenCalledWith(MODEL, { prompt: 'Build it.', temperature: 0.5 });
+    expect(result).toEqual({
+      ok: true,
+      value: { text: '<p>Hi</p>', usage: { prompt_tokens: 12, completion_tokens: 4 }, provider: 'workers-ai', model: MODEL },
+    });
+  });
+
+  it('accepts plain string output without usage', async () => {
+    const result = await createWorkersAiProvider({ run: async () => 'plain' }).complete({ model: MODEL, messages: [] });
+    expect(result.ok && result.value.usage).toEqual({ prompt_tokens: 0, completion_tokens: 0 });
+  });
+
+  it('classifies thrown errors and unexpected output', async () => {
+    const overloaded = createWorkersAiProvider({ run: async () => { throw new Error('3040: Capacity temporarily exceeded'); } });
+    expect(await overloaded.complete({ model: MODEL, prompt: 'x' })).toEqual({
+      ok: false,
+      error: { kind: 'rate_limited', message: '3040: Capacity temporarily exceeded', retryable: true },
+    });
+
+    const empty = createWorkersAiProvider({ run: async () => null });
+    expect(await empty.complete({ model: MODEL, prompt: 'x' })).toEqual({
+      ok: false,
+      error: { kind: 'bad_response', message: 'Unexpected response format from AI model', retryable: false },
+    });
+  });
+});
+
+describe('createOpenAiCompatibleProvider', () => {
+  it('posts chat completions and reads the first choice', async () => {
+    const fetch = vi.fn(async () =>
+      Response.json({ choices: [{ message: { content: 'Done' } }], usage: { prompt_tokens: 7, completion_tokens: 2 } })
+    );
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'https://llm.example/v1/', apiKey: 'k', model: 'gpt-test', fetch });
+
+    const result = await provider.complete({ model: MODEL, prompt: 'Build it.', max_tokens: 100 });
+
+    expect(result).toEqual({
+      ok: true,
+      value: { text: 'Done', usage: { prompt_tokens: 7, completion_tokens: 2 }, provider: 'openai', model: 'gpt-test' },
+    });
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://llm.example/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer k');
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'gpt-test',
+      messages: [{ role: 'user', content: 'Build it.' }],
+      max_tokens: 100,
+    });
+  });
+
+  it('classifies HTTP failures by status', async () => {
+    const respond = (status: number) =>
+      createOpenAiCompatibleProvider({ baseUrl: 'https://llm.example', fetch: async () => new Response('nope', { status }) });
+
+    const limited = await respond(429).complete({ model: MODEL, prompt: 'x' });
+    expect(limited).toEqual({
+      ok: false,
+      error: { kind: 'rate_limited', message: 'Endpoint responded with 429: nope', retryable: true, status: 429 },
+    });
+    const denied = await respond(401).complete({ model: MODEL, prompt: 'x' });
+    expect(!denied.ok && [denied.error.kind, denied.error.retryable]).toEqual(['auth', false]);
+  });
+
+  it('reports responses without completion text', async () => {
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'https://llm.example', fetch: async () => Response.json({ choices: [] }) });
+    const result = await provider.complete({ model: MODEL, prompt: 'x' });
+    expect(!result.ok && result.error.kind).toBe('bad_response');
+  });
+});
+
+describe('createFakeProvider', () => {
+  it('answers identical requests identically and estimates usage', async () => {
+    const provider = createFakeProvider();
+    const first = await provider.complete({ model: MODEL, prompt: 'Build it.' });
+    const second = await provider.complete({ model: MODEL, prompt: 'Build it.' });
+    const other = await provider.complete({ model: MODEL, prompt: 'Build something else.' });
+
+    expect(first).toEqual(second);
+    expect(first.ok && first.value.text).toMatch(/^Fake completion [0-9a-f]{8}$/);
+    expect(first.ok && other.ok && first.value.text !== other.value.text).toBe(true);
+    expect(first.ok && first.value.usage.prompt_tokens).toBe(4);
+  });
+
+  it('answers HTML requests with a document and judge requests with a JSON verdict', async () => {
+    const provider = createFakeProvider();
+    const page = await provider.complete({ model: MODEL, prompt: 'Respond with a single complete HTML document.' });
+    const verdict = await provider.complete({
+      model: MODEL,
+      messages: [
+        { role: 'system', content: 'Score this page. Only return valid JSON.' },
+        { role: 'user', content: '<!DOCTYPE html><html><body></body></html>' },
+      ],
+    });
+
+    expect(page.ok && page.value.text).toMatch(/^<!DOCTYPE html>\n<html lang="en">[\s\S]*<body>[\s\S]*<\/html>$/);
+    const parsed = verdict.ok ? JSON.parse(verdict.value.text) : {};
+    expect(parsed).toEqual({ score: expect.any(Number), reasoning: expect.stringMatching(/^Fake verdict [0-9a-f]{8}$/), strengths: [], improvements: [] });
+    expect(parsed.score).toBeGreaterThanOrEqual(0);
+    expect(parsed.score).toBeLessThanOrEqual(100);
+  });
+
+  it('uses the given responder', async () => {
+    const result = await createFakeProvider({ respond: (request) => `echo ${request.prompt}` }).complete({ model: MODEL, prompt: 'hi' });
+    expect(result.ok && result.value.text).toBe('echo hi');
+  });
+});
+
+describe('classifyLlmError', () => {
+  it('falls back to the wording when there is no status', () => {
+    expect(classifyLlmError('Request timed out').kind).toBe('timeout');
+    expect(classifyLlmError('5007: No such model').kind).toBe('invalid_request');
+    expect(classifyLlmError('Something odd')).toEqual({ kind: 'unknown', message: 'Something odd', retryable: false });
+    expect(classifyLlmError('Bad gateway', 502)).toMatchObject({ kind: 'unavailable', retryable: true, status: 502 });
+  });
+});
+
+describe('createLlmProvider', () => {
+  it('selects the configured provider', () => {
+    expect(createLlmProvider({ AI: { run: async () => '' } }).name).toBe('workers-ai');
+    expect(createLlmProvider({ LLM_PROVIDER: 'openai', LLM_BASE_URL: 'https://llm.example' }).name).toBe('openai');
+    expect(createLlmProvider({ LLM_PROVIDER: 'fake' }).name).toBe('fake');
+  });
+
+  it('rejects incomplete or unknown configuration', () => {
+    expect(() => createLlmProvider({})).toThrow('The workers-ai LLM provider requires the AI binding');
+    expect(() => createLlmProvider({ LLM_PROVIDER: 'openai' })).toThrow('The openai LLM provider requires LLM_BASE_URL');
+    expect(() => createLlmProvider({ LLM_PROVIDER: 'other' })).toThrow('Unknown LLM provider: other');
+  });
+});
@@ -0,0 +1,233 @@
+import { LlmError, LlmErrorKind, LlmProvider, LlmRequest, LlmResult } from '../types/llm.js';
+import { ChatMessage, CostMetrics } from '../types/schemas.js';
+
+// The subset of the Workers AI binding the provider relies on.
+export interface WorkersAiBinding {
+  run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+}
+
+export interface OpenAiCompatibleOptions {
+  baseUrl: string; // e.g. "https://api.openai.com/v1"; requests go to `${baseUrl}/chat/completions`.
+  apiKey?: string;
+  model?: string; // Sent instead of the request's model, for endpoints that do not serve Workers AI model ids.
+  fetch?: typeof fetch;
+}
+
+export interface FakeProviderOptions {
+  respond?: (request: LlmRequest) => string;
+}
+
+// Worker bindings and variables that select and configure a provider.
+export interface LlmProviderEnv {
+  AI?: WorkersAiBinding;
+  LLM_PROVIDER?: string; // "workers-ai" (default), "openai" or "fake".
+  LLM_BASE_URL?: string;
+  LLM_API_KEY?: string;
+  LLM_MODEL?: string;
+}
+
+const RETRYABLE_KINDS = new Set<LlmErrorKind>(['rate_limited', 'timeout', 'unavailable']);
+
+const SAMPLING_KEYS = ['temperature', 'top_p', 'max_tokens', 'seed'] as const;
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sampling(request: LlmRequest): Fields {
+  const fields: Fields = {};
+  for (const key of SAMPLING_KEYS) {
+    if (request[key] !== undefined) {
+      fields[key] = request[key];
+    }
+  }
+  return fields;
+}
+
+function chatMessages(request: LlmRequest): ChatMessage[] {
+  return request.messages ?? [{ role: 'user', content: request.prompt ?? '' }];
+}
+
+function readUsage(value: unknown): CostMetrics {
+  const count = (field: unknown) => (typeof field === 'number' && Number.isFinite(field) && field >= 0 ? field : 0);
+  return isObject(value)
+    ? { prompt_tokens: count(value.prompt_tokens), completion_tokens: count(value.completion_tokens) }
+    : { prompt_tokens: 0, completion_tokens: 0 };
+}
+
+function failure(error: LlmError): LlmResult {
+  return { ok: false, error };
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Sorts a provider failure into a kind from its HTTP status, when there is one,
+ * or else from the wording of the error, and marks the kinds worth retrying.
+ */
+export function classifyLlmError(message: string, status?: number): LlmError {
+  let kind: LlmErrorKind = 'unknown';
+  if (status === 429 || /rate.?limit|too many requests|capacity/i.test(message)) {
+    kind = 'rate_limited';
+  } else if (status === 408 || status === 504 || /timed? ?out/i.test(message)) {
+    kind = 'timeout';
+  } else if (status === 401 || status === 403 || /unauthori[sz]ed|forbidden|api key/i.test(message)) {
+    kind = 'auth';
+  } else if ((status !== undefined && status >= 500) || /unavailable|network|connection/i.test(message)) {
+    kind = 'unavailable';
+  } else if ((status !== undefined && status >= 400) || /invalid|no such model|bad input/i.test(message)) {
+    kind = 'invalid_request';
+  }
+  return { kind, message, retryable: RETRYABLE_KINDS.has(kind), ...(status !== undefined && { status }) };
+}
+
+/** Calls a model through the Workers AI binding. Text models answer with a string or `{ response, usage }`. */
+export function createWorkersAiProvider(ai: WorkersAiBinding): LlmProvider {
+  const name = 'workers-ai';
+  return {
+    name,
+    async complete(request) {
+      const inputs = request.messages ? { messages: request.messages } : { prompt: request.prompt ?? '' };
+      let output: unknown;
+      try {
+        output = await ai.run(request.model, { ...inputs, ...sampling(request) });
+      } catch (error) {
+        return failure(classifyLlmError(messageOf(error)));
+      }
+
+      if (typeof output === 'string') {
+        return { ok: true, value: { text: output, usage: readUsage(undefined), provider: name, model: request.model } };
+      }
+      if (isObject(output) && typeof output.response === 'string') {
+        return { ok: true, value: { text: output.response, usage: readUsage(output.usage), provider: name, model: request.model } };
+      }
+      return failure({ kind: 'bad_response', message: 'Unexpected response format from AI model', retryable: false });
+    },
+  };
+}
+
+/** Calls the chat completions API of an OpenAI-compatible HTTP endpoint. */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const name = 'openai';
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const send = options.fetch ?? fetch;
+
+  return {
+    name,
+    async complete(request) {
+      const model = options.model ?? request.model;
+      let response: Response;
+      try {
+        response = await send(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+          },
+          body: JSON.stringify({ model, messages: chatMessages(request), ...sampling(request) }),
+        });
+      } catch (error) {
+        return failure(classifyLlmError(messageOf(error)));
+      }
+
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 200);
+        return failure(classifyLlmError(`Endpoint responded with ${response.status}${detail ? `: ${detail}` : ''}`, response.status));
+      }
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        return failure({ kind: 'bad_response', message: 'Endpoint returned invalid JSON', retryable: false });
+      }
+      const choice = isObject(body) && Array.isArray(body.choices) ? body.choices[0] : undefined;
+      const text = isObject(choice) && isObject(choice.message) ? choice.message.content : undefined;
+      if (typeof text !== 'string') {
+        return failure({ kind: 'bad_response', message: 'Endpoint returned no completion text', retryable: false });
+      }
+      return { ok: true, value: { text, usage: readUsage(isObject(body) ? body.usage : undefined), provider: name, model } };
+    },
+  };
+}
+
+// FNV-1a, so fake completions are stable across runs and platforms.
+function hash(text: string): string {
+  let value = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    value ^= text.charCodeAt(index);
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value.toString(16).padStart(8, '0');
+}
+
+// Answers in the shape the request asks for: a JSON verdict when a system message asks for JSON,
+// a small HTML document when the input mentions HTML, plain text otherwise.
+function fakeCompletion(request: LlmRequest, input: string): string {
+  const digest = hash(`${request.model}\n${input}`);
+  const messages = chatMessages(request);
+  if (messages.some((message) => message.role === 'system' && /\bJSON\b/.test(message.content))) {
+    return JSON.stringify({
+      score: parseInt(digest.slice(0, 4), 16) % 101,
+      reasoning: `Fake verdict ${digest}`,
+      strengths: [],
+      improvements: [],
+    });
+  }
+  if (/\bhtml\b/i.test(input)) {
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '  <meta charset="utf-8">',
+      `  <title>Fake completion ${digest}</title>`,
+      '</head>',
+      '<body>',
+      `  <p>Fake completion ${digest}</p>`,
+      '</body>',
+      '</html>',
+    ].join('\n');
+  }
+  return `Fake completion ${digest}`;
+}
+
+/**
+ * A provider that never leaves the process: the same request always yields the
+ * same completion, with token usage estimated at four characters per token.
+ */
+export function createFakeProvider(options: FakeProviderOptions = {}): LlmProvider {
+  const name = 'fake';
+  return {
+    name,
+    async complete(request) {
+      const input = chatMessages(request).map((message) => `${message.role}: ${message.content}`).join('\n');
+      const text = options.respond ? options.respond(request) : fakeCompletion(request, input);
+      const usage = { prompt_tokens: Math.ceil(input.length / 4), completion_tokens: Math.ceil(text.length / 4) };
+      return { ok: true, value: { text, usage, provider: name, model: request.model } };
+    },
+  };
+}
+
+/** Builds the provider a worker is configured for. Throws when the configuration is incomplete. */
+export function createLlmProvider(env: LlmProviderEnv): LlmProvider {
+  switch (env.LLM_PROVIDER ?? 'workers-ai') {
+    case 'workers-ai':
+      if (!env.AI) {
+        throw new Error('The workers-ai LLM provider requires the AI binding');
+      }
+      return createWorkersAiProvider(env.AI);
+    case 'openai':
+      if (!env.LLM_BASE_URL) {
+        throw new Error('The openai LLM provider requires LLM_BASE_URL');
+      }
+      return createOpenAiCompatibleProvider({ baseUrl: env.LLM_BASE_URL, apiKey: env.LLM_API_KEY, model: env.LLM_MODEL });
+    case 'fake':
+      return createFakeProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${env.LLM_PROVIDER}`);
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { checkScorecard, normalizeScorecardWeights } from './validator.js';
+
+const linter = { type: 'linter', weight: 0.4, config: {} };
+const llm = { type: 'llm_evaluation', weight: 0.6, config: { prompt: 'Rate it' } };
+
+describe('checkScorecard', () => {
+  it('accepts a scorecard of registered tests', () => {
+    expect(checkScorecard({ tests: [linter, llm] })).toEqual({ valid: true, value: { tests: [linter, llm] } });
+  });
+
+  it('returns shape errors before running static checks', () => {
+    expect(checkScorecard({ tests: [{ type: 'nope', weight: -1, config: {} }] })).toEqual({
+      valid: false,
+      errors: [{ path: 'tests[0].weight', message: 'must be >= 0, got -1' }],
+    });
+  });
+
+  it('flags unknown types, duplicates, missing config and out-of-range weights', () => {
+    const result = checkScorecard({
+      tests: [
+        { ...linter, weight: 2 },
+        { type: 'llm_evaluation', weight: 0.5, config: {} },
+        { ...linter },
+        { type: 'static_analysis', weight: 0.1, config: {} },
+      ],
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        { path: 'tests[0].weight', message: 'must be between 0 and 1, got 2' },
+        { path: 'tests[1].config.prompt', message: 'is required' },
+        { path: 'tests[2].type', message: 'duplicates the "linter" test at tests[0]' },
+        {
+          path: 'tests[3].type',
+          message: 'unknown test type "static_analysis"; expected one of linter, llm_evaluation, html_validation, accessibility',
+        },
+      ],
+    });
+  });
+
+  it('does not take inherited object keys for test types', () => {
+    const result = checkScorecard({ tests: [{ type: 'toString', weight: 1, config: {} }] });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        {
+          path: 'tests[0].type',
+          message: 'unknown test type "toString"; expected one of linter, llm_evaluation, html_validation, accessibility',
+        },
+      ],
+    });
+  });
+
+  it('requires at least one test with a positive weight', () => {
+    expect(checkScorecard({ tests: [] })).toEqual({
+      valid: false,
+      errors: [{ path: 'tests', message: 'must contain at least one test' }],
+    });
+    expect(checkScorecard({ tests: [{ ...linter, weight: 0 }] })).toEqual({
+      valid: false,
+      errors: [{ path: 'tests', message: 'at least one test must have a weight above 0' }],
+    });
+  });
+
+  it('normalizes weights that do not sum to 1', () => {
+    const result = checkScorecard({ tests: [{ ...linter, weight: 0.25 }, { ...llm, weight: 0.25 }] });
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.value.tests.map((test) => test.weight)).toEqual([0.5, 0.5]);
+  });
+});
+
+describe('normalizeScorecardWeights', () => {
+  it('leaves all-zero weights untouched', () => {
+    const scorecard = { tests: [{ ...linter, weight: 0 }] };
+    expect(normalizeScorecardWeights(scorecard)).toBe(scorecard);
+  });
+});
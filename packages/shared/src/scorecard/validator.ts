@@ -0,0 +1,95 @@
+import { Scorecard, ScorecardTest } from '../types/schemas.js';
+import { ValidationIssue, ValidationResult } from '../types/validation.js';
+import { validateScorecard } from '../validation/contracts.js';
+
+type ConfigCheck = (config: Record<string, any>, path: string, issues: ValidationIssue[]) => void;
+
+function requireConfigString(key: string): ConfigCheck {
+  return (config, path, issues) => {
+    const value = config[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({ path: `${path}.${key}`, message: value === undefined ? 'is required' : 'must be a non-empty string' });
+    }
+  };
+}
+
+/**
+ * Test types the evaluator has a handler for, with the config each one needs.
+ * Keep in sync with the evaluator's handler registry.
+ */
+export const SCORECARD_TEST_TYPES: ReadonlyMap<string, ConfigCheck> = new Map([
+  ['linter', () => {}],
+  ['llm_evaluation', requireConfigString('prompt')],
+  ['html_validation', () => {}],
+  ['accessibility', () => {}],
+]);
+
+/**
+ * Rescales weights so they sum to 1, preserving their relative proportions.
+ * Scorecards whose weights sum to zero are returned unchanged.
+ */
+export function normalizeScorecardWeights(scorecard: Scorecard): Scorecard {
+  const total = scorecard.tests.reduce((sum, test) => sum + test.weight, 0);
+  if (total <= 0) {
+    return scorecard;
+  }
+  return {
+    ...scorecard,
+    tests: scorecard.tests.map((test): ScorecardTest => ({ ...test, weight: test.weight / total })),
+  };
+}
+
+/**
+ * Statically checks a scorecard before any artifact is evaluated against it:
+ * every test must name a registered type with its required config, appear at
+ * most once, and carry a weight between 0 and 1. At least one weight must be
+ * positive. On success the returned scorecard has its weights normalized.
+ */
+export function checkScorecard(value: unknown): ValidationResult<Scorecard> {
+  const shape = validateScorecard(value);
+  if (!shape.valid) {
+    return shape;
+  }
+
+  const { tests } = shape.value;
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, number>();
+
+  if (tests.length === 0) {
+    issues.push({ path: 'tests', message: 'must contain at least one test' });
+  }
+
+  tests.forEach((test, index) => {
+    const path = `tests[${index}]`;
+
+    const checkConfig = SCORECARD_TEST_TYPES.get(test.type);
+    if (!checkConfig) {
+      issues.push({
+        path: `${path}.type`,
+        message: `unknown test type "${test.type}"; expected one of ${[...SCORECARD_TEST_TYPES.keys()].join(', ')}`,
+      });
+    } else {
+      checkConfig(test.config, `${path}.config`, issues);
+    }
+
+    const first = seen.get(test.type);
+    if (first !== undefined) {
+      issues.push({ path: `${path}.type`, message: `duplicates the "${test.type}" test at tests[${first}]` });
+    } else {
+      seen.set(test.type, index);
+    }
+
+    if (test.weight > 1) {
+      issues.push({ path: `${path}.weight`, message: `must be between 0 and 1, got ${test.weight}` });
+    }
+  });
+
+  if (tests.length > 0 && tests.every((test) => test.weight === 0)) {
+    issues.push({ path: 'tests', message: 'at least one test must have a weight above 0' });
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, errors: issues };
+  }
+  return { valid: true, value: normalizeScorecardWeights(shape.value) };
+}
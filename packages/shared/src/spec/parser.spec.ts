@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_GENERATORS_PER_WAVE, parseSpec, parseSpecMarkdown } from './parser.js';
+import { encodeBase64 } from '../utils/encoding.js';
+
+const validSpec = `---
+title: "Bio-Mechanical Data Table"
+version: 1.0
+author: SRAL Team # maintainer
+output_format: self_contained_html
+generator_type: stateless_worker
+generator_count_per_wave: 4
+---
+
+# Task
+
+Build a searchable data table with a dark, bio-mechanical theme.
+`;
+
+describe('parseSpecMarkdown', () => {
+  it('reads front matter into SpecConfig and returns the body as the task description', () => {
+    const result = parseSpecMarkdown(validSpec);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.value.config).toEqual({
+      title: 'Bio-Mechanical Data Table',
+      version: '1.0',
+      author: 'SRAL Team',
+      output_format: 'self_contained_html',
+      generator_type: 'stateless_worker',
+      generator_count_per_wave: 4,
+    });
+    expect(result.value.taskDescription).toBe('# Task\n\nBuild a searchable data table with a dark, bio-mechanical theme.');
+  });
+
+  it('accepts CRLF line endings', () => {
+    const result = parseSpecMarkdown(validSpec.replace(/\n/g, '\r\n'));
+    expect(result.valid).toBe(true);
+  });
+
+  it('requires a front matter block', () => {
+    const result = parseSpecMarkdown('# Just markdown');
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [{ path: 'front_matter', message: 'spec.md must start with a front matter block delimited by "---" lines' }],
+    });
+  });
+
+  it('reports every missing or invalid field', () => {
+    const spec = `---
+version: 1
+output_format: self_contained_html
+generator_type: swarm
+generator_count_per_wave: -2
+---
+Do things.`;
+
+    const result = parseSpecMarkdown(spec);
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toEqual([
+      { path: 'title', message: 'is required' },
+      { path: 'author', message: 'is required' },
+      { path: 'generator_type', message: 'unknown generator_type "swarm"; expected one of stateless_worker, stateful_agent' },
+      { path: 'generator_count_per_wave', message: 'must be a positive integer, got "-2"' },
+    ]);
+  });
+
+  it('rejects non-integer counts, duplicate keys and malformed lines', () => {
+    const spec = validSpec
+      .replace('generator_count_per_wave: 4', 'generator_count_per_wave: 2.5\ntitle: Again\n- list item');
+
+    const result = parseSpecMarkdown(spec);
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors.map((error) => error.path)).toEqual(['title', 'front_matter', 'generator_count_per_wave']);
+    expect(result.errors[1].message).toBe('Line 9: expected "key: value" but found "- list item"');
+  });
+
+  it('ignores extra keys named like inherited properties', () => {
+    const result = parseSpecMarkdown(validSpec.replace('generator_count_per_wave: 4', 'generator_count_per_wave: 4\nconstructor: x\n__proto__: y'));
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('caps the number of generators per wave', () => {
+    expect(parseSpecMarkdown(validSpec.replace('generator_count_per_wave: 4', `generator_count_per_wave: ${MAX_GENERATORS_PER_WAVE}`)).valid).toBe(true);
+
+    const result = parseSpecMarkdown(validSpec.replace('generator_count_per_wave: 4', 'generator_count_per_wave: 10000'));
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [{ path: 'generator_count_per_wave', message: `must be at most ${MAX_GENERATORS_PER_WAVE}, got 10000` }],
+    });
+  });
+
+  it('requires a task description', () => {
+    const result = parseSpecMarkdown(validSpec.slice(0, validSpec.indexOf('# Task')));
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toEqual([{ path: 'body', message: 'task description after the front matter is empty' }]);
+  });
+});
+
+describe('parseSpec', () => {
+  it('decodes base64 content including non-ASCII characters', () => {
+    const result = parseSpec(encodeBase64(validSpec.replace('SRAL Team', 'Zoë')));
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.value.config.author).toBe('Zoë');
+  });
+
+  it('reports invalid base64 against spec_content', () => {
+    expect(parseSpec('%%%')).toEqual({
+      valid: false,
+      errors: [{ path: 'spec_content', message: 'is not valid base64-encoded UTF-8' }],
+    });
+  });
+});
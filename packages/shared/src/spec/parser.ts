@@ -0,0 +1,133 @@
+import { SpecConfig } from '../types/schemas.js';
+import { ValidationIssue, ValidationResult } from '../types/validation.js';
+import { decodeBase64 } from '../utils/encoding.js';
+
+export const GENERATOR_TYPES: ReadonlyArray<SpecConfig['generator_type']> = ['stateless_worker', 'stateful_agent'];
+
+// A whole wave is written to R2 and dispatched within one Durable Object request, so it stays well inside the subrequest limit.
+export const MAX_GENERATORS_PER_WAVE = 20;
+
+export interface ParsedSpec {
+  config: SpecConfig;
+  taskDescription: string; // The Markdown body following the front matter.
+}
+
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const KEY_VALUE = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/;
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed.endsWith(trimmed[0])) {
+    return trimmed.slice(1, -1);
+  }
+  // Strip trailing comments from bare values.
+  return trimmed.replace(/\s+#.*$/, '');
+}
+
+function readFrontMatter(block: string, errors: ValidationIssue[]): Map<string, string> {
+  const fields = new Map<string, string>();
+
+  block.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '' || line.trim().startsWith('#')) {
+      return;
+    }
+    const match = line.match(KEY_VALUE);
+    if (!match) {
+      errors.push({ path: 'front_matter', message: `Line ${index + 2}: expected "key: value" but found "${line.trim()}"` });
+      return;
+    }
+    const [, key, value] = match;
+    if (fields.has(key)) {
+      errors.push({ path: key, message: `is declared more than once (line ${index + 2})` });
+      return;
+    }
+    fields.set(key, unquote(value));
+  });
+
+  return fields;
+}
+
+function requireString(fields: Map<string, string>, key: keyof SpecConfig, errors: ValidationIssue[]): string {
+  const value = fields.get(key);
+  if (value === undefined || value === '') {
+    errors.push({ path: key, message: 'is required' });
+    return '';
+  }
+  return value;
+}
+
+/**
+ * Parses a spec.md document whose YAML-style front matter declares the
+ * SpecConfig fields. Values are read as scalars only; nested YAML is not
+ * supported. The Markdown after the front matter becomes the task description.
+ */
+export function parseSpecMarkdown(markdown: string): ValidationResult<ParsedSpec> {
+  const match = markdown.match(FRONT_MATTER);
+  if (!match) {
+    return {
+      valid: false,
+      errors: [{ path: 'front_matter', message: 'spec.md must start with a front matter block delimited by "---" lines' }],
+    };
+  }
+
+  const errors: ValidationIssue[] = [];
+  const fields = readFrontMatter(match[1], errors);
+
+  const title = requireString(fields, 'title', errors);
+  const version = requireString(fields, 'version', errors);
+  const author = requireString(fields, 'author', errors);
+  const output_format = requireString(fields, 'output_format', errors);
+
+  const generatorType = requireString(fields, 'generator_type', errors);
+  if (generatorType && !GENERATOR_TYPES.includes(generatorType as SpecConfig['generator_type'])) {
+    errors.push({
+      path: 'generator_type',
+      message: `unknown generator_type "${generatorType}"; expected one of ${GENERATOR_TYPES.join(', ')}`,
+    });
+  }
+
+  const rawCount = requireString(fields, 'generator_count_per_wave', errors);
+  const count = Number(rawCount);
+  if (rawCount && (!/^-?\d+$/.test(rawCount) || count <= 0)) {
+    errors.push({ path: 'generator_count_per_wave', message: `must be a positive integer, got "${rawCount}"` });
+  } else if (count > MAX_GENERATORS_PER_WAVE) {
+    errors.push({ path: 'generator_count_per_wave', message: `must be at most ${MAX_GENERATORS_PER_WAVE}, got ${count}` });
+  }
+
+  const taskDescription = markdown.slice(match[0].length).trim();
+  if (taskDescription === '') {
+    errors.push({ path: 'body', message: 'task description after the front matter is empty' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      config: {
+        title,
+        version,
+        author,
+        output_format,
+        generator_type: generatorType as SpecConfig['generator_type'],
+        generator_count_per_wave: count,
+      },
+      taskDescription,
+    },
+  };
+}
+
+/**
+ * Decodes the base64 `StartRequest.spec_content` and parses it.
+ */
+export function parseSpec(specContent: string): ValidationResult<ParsedSpec> {
+  let markdown: string;
+  try {
+    markdown = decodeBase64(specContent);
+  } catch {
+    return { valid: false, errors: [{ path: 'spec_content', message: 'is not valid base64-encoded UTF-8' }] };
+  }
+  return parseSpecMarkdown(markdown);
+}
@@ -0,0 +1,41 @@
+import { ChatMessage, CostMetrics } from './schemas.js';
+
+export interface LlmRequest {
+  model: string;
+  prompt?: string; // Sent as a single user message by chat-only providers.
+  messages?: ChatMessage[]; // Takes precedence over `prompt`.
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  seed?: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  usage: CostMetrics; // Zero when the provider does not report usage.
+  provider: string;
+  model: string;
+}
+
+export type LlmErrorKind =
+  | 'rate_limited'
+  | 'timeout'
+  | 'unavailable'
+  | 'auth'
+  | 'invalid_request'
+  | 'bad_response'
+  | 'unknown';
+
+export interface LlmError {
+  kind: LlmErrorKind;
+  message: string;
+  retryable: boolean; // Whether sending the same request again may succeed.
+  status?: number; // HTTP status, when the provider answered over HTTP.
+}
+
+export type LlmResult = { ok: true; value: LlmCompletion } | { ok: false; error: LlmError };
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResult>;
+}
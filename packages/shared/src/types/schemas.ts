@@ -9,7 +9,7 @@ export interface SpecConfig {
 }
 
 export interface ScorecardTest {
-  type: "linter" | "static_analysis" | "llm_evaluation" | string;
+  type: "linter" | "static_analysis" | "llm_evaluation" | "html_validation" | "accessibility" | string;
   weight: number; // A value between 0 and 1.
   config: Record<string, any>; // Test-specific configuration
 }
@@ -22,6 +22,7 @@ export interface TerminationConditions {
   maxWaves?: number;
   maxCost?: number; // In USD.
   minViableCandidates?: number;
+  viableScoreThreshold?: number; // Minimum quality_score for a candidate to count as viable (0-100).
   qualityPlateau?: {
     waves: number; // Number of waves to look back.
     delta: number; // Minimum quality improvement required.
@@ -29,11 +30,31 @@ export interface TerminationConditions {
   manualApproval?: boolean; // If true, the loop pauses after analysis.
 }
 
+// How the artifacts of a wave are made to differ from one another. Ladders and
+// personas are cycled across the artifacts of each wave.
+export interface DiversityConfig {
+  temperatures?: number[];
+  top_p?: number[];
+  personas?: string[]; // Persona or style directives added to the meta-prompt.
+  seed?: number; // Base seed; every artifact of the run gets a distinct seed derived from it.
+  mutate_best_prompt?: boolean; // Give one artifact per wave a variation of the prompt behind the best prior artifact.
+}
+
+// How long dispatched work may take before it is sent again, and how often.
+export interface JobTimeoutConfig {
+  generation_timeout_seconds?: number;
+  analysis_timeout_seconds?: number;
+  max_retries?: number; // Re-dispatches after the first deadline; a job still unanswered after the last one times out.
+}
+
 // API Contract Schemas
 export interface StartRequest {
   spec_content: string; // Base64 encoded content of spec.md.
   scorecard_content: string; // Base64 encoded content of scorecard.json.
   termination_conditions?: Partial<TerminationConditions>; // Optional overrides.
+  diversity?: DiversityConfig; // Optional overrides.
+  job_timeouts?: JobTimeoutConfig; // Optional overrides.
+  pricing?: Record<string, ModelPricing>; // Per-model price overrides, e.g. negotiated rates.
 }
 
 export interface StartResponse {
@@ -47,6 +68,33 @@ export interface GenerateRequest {
   artifact_id: string;
   meta_prompt: string; // The full, evolved prompt for the LLM.
   output_r2_path: string; // The target R2 path for the generated artifact.
+  generation_config?: GenerationConfig; // Overrides; the generator defaults apply when omitted.
+  output_format?: string; // SpecConfig.output_format; selects how the artifact is extracted from the model output.
+}
+
+export interface GenerationConfig {
+  model?: string; // Must be on the generator's model allowlist.
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  seed?: number;
+  system?: string; // System message; sends the meta-prompt as a chat conversation.
+  messages?: ChatMessage[]; // Conversation placed before the meta-prompt; sends it as a chat conversation.
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// The settings a generation actually ran with, echoed back to the orchestrator.
+export interface EffectiveGenerationConfig {
+  model: string;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  seed?: number;
+  chat_messages: number; // Messages sent ahead of the meta-prompt; 0 when it was sent as a plain prompt.
 }
 
 export interface CostMetrics {
@@ -54,13 +102,29 @@ export interface CostMetrics {
   completion_tokens: number;
 }
 
+// Token usage of the calls made to one model.
+export interface ModelUsage extends CostMetrics {
+  model: string;
+}
+
+// USD per million tokens, priced separately for prompt and completion.
+export interface ModelPricing {
+  prompt_usd_per_million: number;
+  completion_usd_per_million: number;
+}
+
 export interface ReportGenerationRequest {
   artifact_id: string;
+  attempt_id: string; // Unique per generation run and kept when the report is delivered again, so its tokens are charged once.
   r2_path: string | null; // null if generation failed.
   status: "SUCCESS" | "FAILED";
   cost_metrics: CostMetrics;
+  generation_config?: EffectiveGenerationConfig;
+  failure_reason?: GenerationFailureReason; // Set when the model answered but no artifact could be recovered.
 }
 
+export type GenerationFailureReason = "EMPTY_OUTPUT" | "NO_HTML_DOCUMENT" | "INVALID_HTML";
+
 export interface AnalyzeRequestArtifact {
   id: string;
   r2_path: string;
@@ -70,6 +134,8 @@ export interface AnalyzeRequest {
   orchestrator_id: string; // The Durable Object ID string for the callback.
   artifacts: AnalyzeRequestArtifact[];
   scorecard: Scorecard;
+  wave_number: number; // The wave being analyzed; labels its learnings and is echoed in the report.
+  previous_learnings_md?: string; // Learnings from earlier waves to merge the new ones into.
 }
 
 export interface EvaluationResult {
@@ -79,8 +145,10 @@ export interface EvaluationResult {
 }
 
 export interface ReportAnalysisRequest {
+  wave_number: number; // The wave the analysis was requested for.
   results: EvaluationResult[];
   learnings_md: string; // The distilled, actionable patterns and principles in Markdown format.
+  usage?: ModelUsage[]; // LLM calls made while evaluating the wave, one entry per model.
 }
 
 export interface EvaluationRequest {
@@ -91,10 +159,15 @@ export interface EvaluationRequest {
 export interface EvaluationResponse {
   quality_score: number;
   details: Record<string, any>;
+  usage?: ModelUsage[]; // LLM calls made by the scorecard tests, one entry per model.
 }
 
+export type GuidanceScope = "wave" | "run";
+
 export interface OverrideControlRequest {
-  human_guidance_r2_path: string;
+  human_guidance_r2_path: string; // R2 path of a Markdown file with the guidance.
+  scope?: GuidanceScope; // "wave" (default) guides only the next wave; "run" every wave from the next one on.
+  requested_by: string; // Who asked for the override, for the audit trail.
 }
 
 export interface ReviewResponse {
@@ -102,10 +175,64 @@ export interface ReviewResponse {
   analysis_summary: string; // Concise summary from the Analyzer.
 }
 
+export type ReviewAction = "approve" | "reject" | "edit_learnings";
+
+// Answers a run paused in AWAITING_APPROVAL: approve starts the next wave, reject ends the run.
+export interface ReviewActionRequest {
+  action: ReviewAction;
+  learnings_md?: string; // Required for edit_learnings; replaces the learnings the next wave is built from.
+}
+
+// Job counts of one wave; timed-out jobs count as failed.
+export interface WaveProgress {
+  wave_number: number;
+  pending: number;
+  complete: number;
+  failed: number;
+}
+
+export interface RunProgress {
+  current_wave: number;
+  waves: WaveProgress[]; // Oldest first.
+  best_score: number | null; // Best quality_score of any artifact so far.
+  cost: {
+    estimated_usd: number;
+    reserved_usd: number; // Held for jobs still running.
+    max_usd: number | null; // termination_conditions.maxCost, when set.
+    remaining_usd: number | null; // Left after spend and reservations.
+  };
+  active_termination_condition: Extract<OrchestratorState["status"], `COMPLETED_${string}`> | null; // The condition that ended the run.
+}
+
+export interface StatusResponse {
+  state: OrchestratorState;
+  progress: RunProgress;
+  guidance: GuidanceOverride[]; // Every human guidance override of the run, oldest first: the audit trail.
+  artifacts: {
+    items: ArtifactRecord[]; // Ordered by wave, then artifact number.
+    total: number; // Matching artifacts across all pages.
+    offset: number;
+    limit: number;
+    next_offset: number | null;
+  };
+}
+
 // Orchestrator Internal State Schemas
+// A human guidance override as accepted; the stored overrides form the audit trail.
+export interface GuidanceOverride {
+  id: string; // PRIMARY KEY
+  r2_path: string;
+  content: string; // The guidance as loaded, so later edits to the R2 object do not rewrite history.
+  scope: GuidanceScope;
+  from_wave: number; // First wave whose prompts include the guidance.
+  requested_by: string;
+  requested_at: number; // Unix timestamp.
+}
+
 export interface CostTracker {
   totalTokens: number;
   estimatedCostUSD: number;
+  reservedUSD: number; // Estimated cost of dispatched jobs that have not reported yet.
 }
 
 export interface ArtifactRecord {
@@ -122,21 +249,69 @@ export interface ArtifactRecord {
 export interface DispatchedJob {
   job_id: string; // PRIMARY KEY
   artifact_id: string; // Correlates to an artifact
+  wave_number: number;
   type: "generation" | "analysis";
   status: "pending" | "complete" | "failed" | "timed_out";
   retries: number;
+  failure_reason?: string; // Why the job failed, when the worker said so.
+  created_at: number; // Unix timestamp.
+  deadline_at: number; // Unix timestamp after which the job is re-dispatched or times out.
+  reserved_usd?: number; // Budget held for the job until it reports or times out.
+  charged_attempts?: string[]; // Attempt ids of the generation reports whose tokens were charged.
+}
+
+export interface PromptInput {
+  kind: "spec" | "output_format" | "human_guidance" | "style" | "learnings" | "exemplar" | "mutation";
+  source: string; // What the input was taken from, e.g. the spec version or an artifact id.
+  tokens: number; // Estimated tokens the input contributed to the prompt.
+  truncated: boolean; // Whether the input was cut to fit the token budget.
+}
+
+export interface PromptRecord {
+  artifact_id: string; // PRIMARY KEY
+  wave_number: number;
+  prompt_r2_path: string; // R2 path of the exact meta-prompt sent to the generator.
+  token_budget: number;
+  estimated_tokens: number;
+  inputs: PromptInput[];
+  strategy: GenerationStrategy;
+  effective_generation_config?: EffectiveGenerationConfig; // As reported by the generator.
   created_at: number; // Unix timestamp.
 }
 
+// The diversification applied to one artifact, kept so winning strategies can be traced.
+export interface GenerationStrategy {
+  label: string; // Human-readable summary, e.g. "temperature 0.7, persona 2".
+  generation_config: GenerationConfig;
+  persona?: string;
+  mutation?: {
+    parent_artifact_id: string; // The best prior artifact whose prompt was varied.
+    directive: string;
+  };
+}
+
 export interface OrchestratorState {
   projectId: string;
-  status: "IDLE" | "GENERATING" | "ANALYZING" | "AWAITING_APPROVAL" | "COMPLETED" | "FAILED" | "COMPLETED_BUDGET_EXCEEDED";
+  status:
+    | "IDLE"
+    | "GENERATING"
+    | "ANALYZING"
+    | "AWAITING_APPROVAL"
+    | "COMPLETED"
+    | "FAILED"
+    | "COMPLETED_BUDGET_EXCEEDED"
+    | "COMPLETED_MAX_WAVES"
+    | "COMPLETED_VIABLE_CANDIDATES"
+    | "COMPLETED_QUALITY_PLATEAU";
   currentWave: number;
   config: {
     specPath: string; // R2 path to spec.md
     scorecardPath: string; // R2 path to scorecard.json
   };
   terminationConditions: TerminationConditions;
+  diversity: DiversityConfig;
+  jobTimeouts: Required<JobTimeoutConfig>;
+  pricing: Record<string, ModelPricing>; // The run's price overrides.
   costTracker: CostTracker;
   latest_learnings_md: string; // The distilled knowledge from the most recent analysis.
   proposedLearningsForReview?: ReviewResponse; // Populated when status is AWAITING_APPROVAL.
@@ -0,0 +1,8 @@
+export interface ValidationIssue {
+  path: string; // Dotted path to the offending field, e.g. "scorecard.tests[0].weight".
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: ValidationIssue[] };
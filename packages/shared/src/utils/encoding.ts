@@ -0,0 +1,21 @@
+/**
+ * Decodes standard base64 into a UTF-8 string. Throws if the input is not
+ * valid base64.
+ */
+export function decodeBase64(content: string): string {
+  const binary = atob(content.replace(/\s+/g, ''));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+/**
+ * Encodes a UTF-8 string as standard base64.
+ */
+export function encodeBase64(content: string): string {
+  const bytes = new TextEncoder().encode(content);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,301 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRequestBody,
+  validateAnalyzeRequest,
+  validateEvaluationRequest,
+  validateGenerateRequest,
+  validateOverrideControlRequest,
+  validateReportAnalysisRequest,
+  validateReportGenerationRequest,
+  validateReviewActionRequest,
+  validateScorecard,
+  validateStartRequest,
+} from './contracts.js';
+
+const scorecard = {
+  tests: [{ type: 'linter', weight: 0.4, config: {} }],
+};
+
+const errorsOf = (result: { valid: boolean; errors?: unknown }) => (result.valid ? [] : result.errors);
+
+describe('validateScorecard', () => {
+  it('accepts a well-formed scorecard', () => {
+    expect(validateScorecard(scorecard)).toEqual({ valid: true, value: scorecard });
+  });
+
+  it('reports the path of each invalid test field', () => {
+    const result = validateScorecard({
+      tests: [{ type: '', weight: -1, config: [] }, 'linter'],
+    });
+
+    expect(errorsOf(result)).toEqual([
+      { path: 'tests[0].type', message: 'must be a non-empty string, got string' },
+      { path: 'tests[0].weight', message: 'must be >= 0, got -1' },
+      { path: 'tests[0].config', message: 'must be an object, got array' },
+      { path: 'tests[1]', message: 'must be an object, got string' },
+    ]);
+  });
+
+  it('reports non-object payloads at the root', () => {
+    expect(errorsOf(validateScorecard(null))).toEqual([{ path: '(root)', message: 'must be an object, got null' }]);
+  });
+});
+
+describe('validateEvaluationRequest', () => {
+  it('nests scorecard issues under the scorecard path', () => {
+    const result = validateEvaluationRequest({ artifact_path: 'a.html', scorecard: { tests: {} } });
+    expect(errorsOf(result)).toEqual([{ path: 'scorecard.tests', message: 'must be an array, got object' }]);
+  });
+});
+
+describe('validateGenerateRequest', () => {
+  it('requires every field', () => {
+    expect(errorsOf(validateGenerateRequest({ artifact_id: 'a', meta_prompt: 42 }))).toEqual([
+      { path: 'orchestrator_id', message: 'is required' },
+      { path: 'meta_prompt', message: 'must be a non-empty string, got number' },
+      { path: 'output_r2_path', message: 'is required' },
+    ]);
+  });
+
+  it('checks the optional generation config', () => {
+    const request = { orchestrator_id: 'o', artifact_id: 'a', meta_prompt: 'p', output_r2_path: 'a.html' };
+    const config = { model: 'm', temperature: 0.7, max_tokens: 512, seed: 3, system: 's', messages: [{ role: 'user', content: 'c' }] };
+    expect(validateGenerateRequest({ ...request, generation_config: config }).valid).toBe(true);
+    expect(errorsOf(validateGenerateRequest({
+      ...request,
+      generation_config: { model: '', top_p: 1.5, max_tokens: 0, seed: 0.5, messages: [{ role: 'tool', content: 'c' }, 'hi'] },
+    }))).toEqual([
+      { path: 'generation_config.model', message: 'must be a non-empty string, got string' },
+      { path: 'generation_config.top_p', message: 'must be <= 1, got 1.5' },
+      { path: 'generation_config.max_tokens', message: 'must be >= 1, got 0' },
+      { path: 'generation_config.seed', message: 'must be an integer, got 0.5' },
+      { path: 'generation_config.messages[0].role', message: 'must be one of system, user, assistant' },
+      { path: 'generation_config.messages[1]', message: 'must be an object, got string' },
+    ]);
+  });
+});
+
+describe('validateReportGenerationRequest', () => {
+  const report = {
+    artifact_id: 'a',
+    attempt_id: 'attempt-1',
+    r2_path: 'a.html',
+    status: 'SUCCESS',
+    cost_metrics: { prompt_tokens: 1, completion_tokens: 2 },
+  };
+
+  it('accepts successful and failed reports', () => {
+    expect(validateReportGenerationRequest(report).valid).toBe(true);
+    expect(validateReportGenerationRequest({ ...report, status: 'FAILED', r2_path: null }).valid).toBe(true);
+  });
+
+  it('requires an r2_path for successful reports and valid cost metrics', () => {
+    const result = validateReportGenerationRequest({
+      ...report,
+      r2_path: null,
+      cost_metrics: { prompt_tokens: -3 },
+    });
+
+    expect(errorsOf(result)).toEqual([
+      { path: 'r2_path', message: 'must be a non-empty string, got null' },
+      { path: 'cost_metrics.prompt_tokens', message: 'must be >= 0, got -3' },
+      { path: 'cost_metrics.completion_tokens', message: 'is required' },
+    ]);
+  });
+
+  it('rejects unknown statuses', () => {
+    expect(errorsOf(validateReportGenerationRequest({ ...report, status: 'DONE' }))).toEqual([
+      { path: 'status', message: 'must be "SUCCESS" or "FAILED"' },
+    ]);
+  });
+
+  it('accepts known failure reasons only', () => {
+    expect(validateReportGenerationRequest({ ...report, status: 'FAILED', r2_path: null, failure_reason: 'INVALID_HTML' }).valid).toBe(true);
+    expect(errorsOf(validateReportGenerationRequest({ ...report, failure_reason: 'OOPS' }))).toEqual([
+      { path: 'failure_reason', message: 'must be one of EMPTY_OUTPUT, NO_HTML_DOCUMENT, INVALID_HTML' },
+    ]);
+  });
+
+  it('checks the echoed generation config', () => {
+    expect(validateReportGenerationRequest({ ...report, generation_config: { model: 'm', chat_messages: 0 } }).valid).toBe(true);
+    expect(errorsOf(validateReportGenerationRequest({ ...report, generation_config: { temperature: 1 } }))).toEqual([
+      { path: 'generation_config.model', message: 'is required' },
+      { path: 'generation_config.chat_messages', message: 'is required' },
+    ]);
+  });
+
+  it('requires the attempt id', () => {
+    const { attempt_id: _attemptId, ...withoutAttempt } = report;
+    expect(errorsOf(validateReportGenerationRequest(withoutAttempt))).toEqual([{ path: 'attempt_id', message: 'is required' }]);
+    expect(errorsOf(validateReportGenerationRequest({ ...report, attempt_id: '' }))).toEqual([
+      { path: 'attempt_id', message: 'must be a non-empty string, got string' },
+    ]);
+  });
+});
+
+describe('validateAnalyzeRequest', () => {
+  it('validates each artifact and the scorecard', () => {
+    const result = validateAnalyzeRequest({
+      orchestrator_id: 'o',
+      artifacts: [{ id: 'a', r2_path: 'a.html' }, { id: 'b' }],
+      scorecard: {},
+      wave_number: 1,
+    });
+
+    expect(errorsOf(result)).toEqual([
+      { path: 'artifacts[1].r2_path', message: 'is required' },
+      { path: 'scorecard.tests', message: 'is required' },
+    ]);
+  });
+
+  it('checks the wave number and the optional previous learnings', () => {
+    const request = { orchestrator_id: 'o', artifacts: [], scorecard };
+
+    expect(validateAnalyzeRequest({ ...request, wave_number: 2, previous_learnings_md: '' }).valid).toBe(true);
+    expect(errorsOf(validateAnalyzeRequest(request))).toEqual([{ path: 'wave_number', message: 'is required' }]);
+    expect(errorsOf(validateAnalyzeRequest({ ...request, wave_number: 0, previous_learnings_md: null }))).toEqual([
+      { path: 'wave_number', message: 'must be >= 1, got 0' },
+      { path: 'previous_learnings_md', message: 'must be a string, got null' },
+    ]);
+  });
+});
+
+describe('validateReportAnalysisRequest', () => {
+  it('validates results and learnings', () => {
+    const result = validateReportAnalysisRequest({
+      wave_number: 1.5,
+      results: [{ artifact_id: 'a', quality_score: 50, details: {} }, { artifact_id: 'b', quality_score: '50' }],
+    });
+
+    expect(errorsOf(result)).toEqual([
+      { path: 'wave_number', message: 'must be an integer, got 1.5' },
+      { path: 'results[1].quality_score', message: 'must be a number, got string' },
+      { path: 'results[1].details', message: 'must be an object, got undefined' },
+      { path: 'learnings_md', message: 'must be a string, got undefined' },
+    ]);
+  });
+});
+
+describe('validateStartRequest', () => {
+  it('accepts optional termination conditions', () => {
+    const request = {
+      spec_content: 'c3BlYw==',
+      scorecard_content: 'e30=',
+      termination_conditions: { maxWaves: 3, maxCost: 2.5, qualityPlateau: { waves: 2, delta: 1 }, manualApproval: true },
+    };
+    expect(validateStartRequest(request)).toEqual({ valid: true, value: request });
+  });
+
+  it('reports invalid termination conditions', () => {
+    const result = validateStartRequest({
+      spec_content: 'c3BlYw==',
+      scorecard_content: 'e30=',
+      termination_conditions: { maxWaves: 1.5, maxCost: -1, qualityPlateau: { waves: 0 }, manualApproval: 'yes' },
+    });
+
+    expect(errorsOf(result)).toEqual([
+      { path: 'termination_conditions.maxWaves', message: 'must be an integer, got 1.5' },
+      { path: 'termination_conditions.maxCost', message: 'must be >= 0, got -1' },
+      { path: 'termination_conditions.qualityPlateau.waves', message: 'must be >= 1, got 0' },
+      { path: 'termination_conditions.qualityPlateau.delta', message: 'is required' },
+      { path: 'termination_conditions.manualApproval', message: 'must be a boolean, got string' },
+    ]);
+  });
+
+  it('reports invalid diversity strategies', () => {
+    const result = validateStartRequest({
+      spec_content: 'c3BlYw==',
+      scorecard_content: 'e30=',
+      diversity: { temperatures: [0.5, '1'], top_p: 0.9, personas: ['Minimalist', ''], seed: -1, mutate_best_prompt: 1 },
+    });
+
+    expect(errorsOf(result)).toEqual([
+      { path: 'diversity.temperatures[1]', message: 'must be a number, got string' },
+      { path: 'diversity.top_p', message: 'must be an array, got number' },
+      { path: 'diversity.personas[1]', message: 'must be a non-empty string, got string' },
+      { path: 'diversity.seed', message: 'must be >= 0, got -1' },
+      { path: 'diversity.mutate_best_prompt', message: 'must be a boolean, got number' },
+    ]);
+  });
+
+  it('reports invalid job timeouts', () => {
+    const result = validateStartRequest({
+      spec_content: 'c3BlYw==',
+      scorecard_content: 'e30=',
+      job_timeouts: { generation_timeout_seconds: 0, analysis_timeout_seconds: '60', max_retries: 1.5 },
+    });
+
+    expect(errorsOf(result)).toEqual([
+      { path: 'job_timeouts.generation_timeout_seconds', message: 'must be >= 1, got 0' },
+      { path: 'job_timeouts.analysis_timeout_seconds', message: 'must be a number, got string' },
+      { path: 'job_timeouts.max_retries', message: 'must be an integer, got 1.5' },
+    ]);
+  });
+});
+
+describe('cost accounting fields', () => {
+  it('reports invalid price overrides and analysis usage', () => {
+    const start = validateStartRequest({
+      spec_content: 'c3BlYw==',
+      scorecard_content: 'e30=',
+      pricing: { '@cf/meta/llama-3-8b-instruct': { prompt_usd_per_million: -1 }, other: 2 },
+    });
+    expect(errorsOf(start)).toEqual([
+      { path: 'pricing["@cf/meta/llama-3-8b-instruct"].prompt_usd_per_million', message: 'must be >= 0, got -1' },
+      { path: 'pricing["@cf/meta/llama-3-8b-instruct"].completion_usd_per_million', message: 'is required' },
+      { path: 'pricing["other"]', message: 'must be an object, got number' },
+    ]);
+
+    const report = validateReportAnalysisRequest({ wave_number: 1, results: [], learnings_md: '', usage: [{ model: 'm', prompt_tokens: 'x', completion_tokens: 1 }] });
+    expect(errorsOf(report)).toEqual([{ path: 'usage[0].prompt_tokens', message: 'must be a number, got string' }]);
+  });
+});
+
+describe('validateOverrideControlRequest', () => {
+  it('accepts an override with or without a scope', () => {
+    expect(validateOverrideControlRequest({ human_guidance_r2_path: 'g.md', requested_by: 'ana' }).valid).toBe(true);
+    expect(validateOverrideControlRequest({ human_guidance_r2_path: 'g.md', requested_by: 'ana', scope: 'run' }).valid).toBe(true);
+  });
+
+  it('reports missing fields and unknown scopes', () => {
+    expect(errorsOf(validateOverrideControlRequest({ scope: 'forever' }))).toEqual([
+      { path: 'human_guidance_r2_path', message: 'is required' },
+      { path: 'requested_by', message: 'is required' },
+      { path: 'scope', message: 'must be one of wave, run' },
+    ]);
+  });
+});
+
+describe('validateReviewActionRequest', () => {
+  it('accepts each action', () => {
+    expect(validateReviewActionRequest({ action: 'approve' }).valid).toBe(true);
+    expect(validateReviewActionRequest({ action: 'edit_learnings', learnings_md: '- Use a grid' }).valid).toBe(true);
+  });
+
+  it('reports unknown actions and misplaced learnings', () => {
+    expect(errorsOf(validateReviewActionRequest({ action: 'pause' }))).toEqual([
+      { path: 'action', message: 'must be one of approve, reject, edit_learnings' },
+    ]);
+    expect(errorsOf(validateReviewActionRequest({ action: 'edit_learnings' }))).toEqual([
+      { path: 'learnings_md', message: 'is required' },
+    ]);
+    expect(errorsOf(validateReviewActionRequest({ action: 'reject', learnings_md: 'x' }))).toEqual([
+      { path: 'learnings_md', message: 'is only accepted with the edit_learnings action' },
+    ]);
+  });
+});
+
+describe('parseRequestBody', () => {
+  it('reports unparseable JSON at the root', async () => {
+    const request = new Request('http://localhost/', { method: 'POST', body: '{nope' });
+    expect(await parseRequestBody(request, validateScorecard)).toEqual({
+      valid: false,
+      errors: [{ path: '(root)', message: 'must be valid JSON' }],
+    });
+  });
+
+  it('returns the validated body', async () => {
+    const request = new Request('http://localhost/', { method: 'POST', body: JSON.stringify(scorecard) });
+    expect(await parseRequestBody(request, validateScorecard)).toEqual({ valid: true, value: scorecard });
+  });
+});
@@ -0,0 +1,378 @@
+import {
+  AnalyzeRequest,
+  EvaluationRequest,
+  GenerateRequest,
+  GenerationFailureReason,
+  GuidanceScope,
+  OverrideControlRequest,
+  ReportAnalysisRequest,
+  ReportGenerationRequest,
+  ReviewAction,
+  ReviewActionRequest,
+  Scorecard,
+  StartRequest,
+} from '../types/schemas.js';
+import { ValidationIssue, ValidationResult } from '../types/validation.js';
+
+// Path reported when the payload itself has the wrong shape.
+export const ROOT_PATH = '(root)';
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function requireObject(value: unknown, path: string, issues: ValidationIssue[]): value is Fields {
+  if (!isObject(value)) {
+    issues.push({ path: path || ROOT_PATH, message: `must be an object, got ${typeName(value)}` });
+    return false;
+  }
+  return true;
+}
+
+function checkString(fields: Fields, key: string, parent: string, issues: ValidationIssue[]): void {
+  const value = fields[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    issues.push({
+      path: join(parent, key),
+      message: value === undefined ? 'is required' : `must be a non-empty string, got ${typeName(value)}`,
+    });
+  }
+}
+
+function checkNumber(
+  fields: Fields,
+  key: string,
+  parent: string,
+  issues: ValidationIssue[],
+  { optional = false, min, max, integer = false }: { optional?: boolean; min?: number; max?: number; integer?: boolean } = {}
+): void {
+  const value = fields[key];
+  if (value === undefined && optional) return;
+  const path = join(parent, key);
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: value === undefined ? 'is required' : `must be a number, got ${typeName(value)}` });
+  } else if (integer && !Number.isInteger(value)) {
+    issues.push({ path, message: `must be an integer, got ${value}` });
+  } else if (min !== undefined && value < min) {
+    issues.push({ path, message: `must be >= ${min}, got ${value}` });
+  } else if (max !== undefined && value > max) {
+    issues.push({ path, message: `must be <= ${max}, got ${value}` });
+  }
+}
+
+function checkArray(fields: Fields, key: string, parent: string, issues: ValidationIssue[]): unknown[] | null {
+  const value = fields[key];
+  if (!Array.isArray(value)) {
+    issues.push({
+      path: join(parent, key),
+      message: value === undefined ? 'is required' : `must be an array, got ${typeName(value)}`,
+    });
+    return null;
+  }
+  return value;
+}
+
+const CHAT_ROLES = ['system', 'user', 'assistant'];
+
+const GENERATION_FAILURE_REASONS: GenerationFailureReason[] = ['EMPTY_OUTPUT', 'NO_HTML_DOCUMENT', 'INVALID_HTML'];
+
+function checkGenerationConfig(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (value === undefined || !requireObject(value, path, issues)) return;
+  if (value.model !== undefined) checkString(value, 'model', path, issues);
+  checkNumber(value, 'temperature', path, issues, { optional: true, min: 0 });
+  checkNumber(value, 'top_p', path, issues, { optional: true, min: 0, max: 1 });
+  checkNumber(value, 'max_tokens', path, issues, { optional: true, min: 1, integer: true });
+  checkNumber(value, 'seed', path, issues, { optional: true, min: 0, integer: true });
+  if (value.system !== undefined) checkString(value, 'system', path, issues);
+  if (value.messages !== undefined) {
+    checkArray(value, 'messages', path, issues)?.forEach((message, index) => {
+      const messagePath = `${join(path, 'messages')}[${index}]`;
+      if (!requireObject(message, messagePath, issues)) return;
+      if (typeof message.role !== 'string' || !CHAT_ROLES.includes(message.role)) {
+        issues.push({ path: join(messagePath, 'role'), message: `must be one of ${CHAT_ROLES.join(', ')}` });
+      }
+      checkString(message, 'content', messagePath, issues);
+    });
+  }
+}
+
+function checkDiversityConfig(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (value === undefined || !requireObject(value, path, issues)) return;
+
+  for (const [key, max] of [['temperatures', undefined], ['top_p', 1]] as const) {
+    if (value[key] === undefined) continue;
+    checkArray(value, key, path, issues)?.forEach((item, index) => {
+      const name = `${key}[${index}]`;
+      checkNumber({ [name]: item }, name, path, issues, { min: 0, max });
+    });
+  }
+  if (value.personas !== undefined) {
+    checkArray(value, 'personas', path, issues)?.forEach((item, index) => {
+      const name = `personas[${index}]`;
+      checkString({ [name]: item }, name, path, issues);
+    });
+  }
+  checkNumber(value, 'seed', path, issues, { optional: true, min: 0, integer: true });
+  if (value.mutate_best_prompt !== undefined && typeof value.mutate_best_prompt !== 'boolean') {
+    issues.push({ path: join(path, 'mutate_best_prompt'), message: `must be a boolean, got ${typeName(value.mutate_best_prompt)}` });
+  }
+}
+
+function checkUsage(fields: Fields, key: string, issues: ValidationIssue[]): void {
+  if (fields[key] === undefined) return;
+  checkArray(fields, key, '', issues)?.forEach((entry, index) => {
+    const entryPath = `${key}[${index}]`;
+    if (!requireObject(entry, entryPath, issues)) return;
+    checkString(entry, 'model', entryPath, issues);
+    checkNumber(entry, 'prompt_tokens', entryPath, issues, { min: 0 });
+    checkNumber(entry, 'completion_tokens', entryPath, issues, { min: 0 });
+  });
+}
+
+function checkPricing(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (value === undefined || !requireObject(value, path, issues)) return;
+  for (const [model, pricing] of Object.entries(value)) {
+    const modelPath = `${path}["${model}"]`;
+    if (!requireObject(pricing, modelPath, issues)) continue;
+    checkNumber(pricing, 'prompt_usd_per_million', modelPath, issues, { min: 0 });
+    checkNumber(pricing, 'completion_usd_per_million', modelPath, issues, { min: 0 });
+  }
+}
+
+function result<T>(value: unknown, issues: ValidationIssue[]): ValidationResult<T> {
+  return issues.length === 0 ? { valid: true, value: value as T } : { valid: false, errors: issues };
+}
+
+function collectScorecardIssues(value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!requireObject(value, path, issues)) return;
+
+  const tests = checkArray(value, 'tests', path, issues);
+  tests?.forEach((test, index) => {
+    const testPath = `${join(path, 'tests')}[${index}]`;
+    if (!requireObject(test, testPath, issues)) return;
+    checkString(test, 'type', testPath, issues);
+    checkNumber(test, 'weight', testPath, issues, { min: 0 });
+    if (!isObject(test.config)) {
+      issues.push({
+        path: join(testPath, 'config'),
+        message: test.config === undefined ? 'is required' : `must be an object, got ${typeName(test.config)}`,
+      });
+    }
+  });
+}
+
+export function validateScorecard(value: unknown): ValidationResult<Scorecard> {
+  const issues: ValidationIssue[] = [];
+  collectScorecardIssues(value, '', issues);
+  return result(value, issues);
+}
+
+export function validateEvaluationRequest(value: unknown): ValidationResult<EvaluationRequest> {
+  const issues: ValidationIssue[] = [];
+  if (requireObject(value, '', issues)) {
+    checkString(value, 'artifact_path', '', issues);
+    collectScorecardIssues(value.scorecard, 'scorecard', issues);
+  }
+  return result(value, issues);
+}
+
+export function validateGenerateRequest(value: unknown): ValidationResult<GenerateRequest> {
+  const issues: ValidationIssue[] = [];
+  if (requireObject(value, '', issues)) {
+    checkString(value, 'orchestrator_id', '', issues);
+    checkString(value, 'artifact_id', '', issues);
+    checkString(value, 'meta_prompt', '', issues);
+    checkString(value, 'output_r2_path', '', issues);
+    checkGenerationConfig(value.generation_config, 'generation_config', issues);
+    if (value.output_format !== undefined) checkString(value, 'output_format', '', issues);
+  }
+  return result(value, issues);
+}
+
+export function validateReportGenerationRequest(value: unknown): ValidationResult<ReportGenerationRequest> {
+  const issues: ValidationIssue[] = [];
+  if (requireObject(value, '', issues)) {
+    checkString(value, 'artifact_id', '', issues);
+    checkString(value, 'attempt_id', '', issues);
+
+    if (value.status !== 'SUCCESS' && value.status !== 'FAILED') {
+      issues.push({ path: 'status', message: 'must be "SUCCESS" or "FAILED"' });
+    }
+    if (value.status === 'SUCCESS') {
+      checkString(value, 'r2_path', '', issues);
+    } else if (value.r2_path !== null && typeof value.r2_path !== 'string') {
+      issues.push({ path: 'r2_path', message: `must be a string or null, got ${typeName(value.r2_path)}` });
+    }
+
+    if (requireObject(value.cost_metrics, 'cost_metrics', issues)) {
+      checkNumber(value.cost_metrics, 'prompt_tokens', 'cost_metrics', issues, { min: 0 });
+      checkNumber(value.cost_metrics, 'completion_tokens', 'cost_metrics', issues, { min: 0 });
+    }
+
+    const config = value.generation_config;
+    if (config !== undefined && requireObject(config, 'generation_config', issues)) {
+      checkString(config, 'model', 'generation_config', issues);
+      checkNumber(config, 'chat_messages', 'generation_config', issues, { min: 0, integer: true });
+    }
+
+    const reason = value.failure_reason;
+    if (reason !== undefined && !GENERATION_FAILURE_REASONS.includes(reason as GenerationFailureReason)) {
+      issues.push({ path: 'failure_reason', message: `must be one of ${GENERATION_FAILURE_REASONS.join(', ')}` });
+    }
+  }
+  return result(value, issues);
+}
+
+export function validateAnalyzeRequest(value: unknown): ValidationResult<AnalyzeRequest> {
+  const issues: ValidationIssue[] = [];
+  if (requireObject(value, '', issues)) {
+    checkString(value, 'orchestrator_id', '', issues);
+
+    const artifacts = checkArray(value, 'artifacts', '', issues);
+    artifacts?.forEach((artifact, index) => {
+      const path = `artifacts[${index}]`;
+      if (!requireObject(artifact, path, issues)) return;
+      checkString(artifact, 'id', path, issues);
+      checkString(artifact, 'r2_path', path, issues);
+    });
+
+    collectScorecardIssues(value.scorecard, 'scorecard', issues);
+
+    checkNumber(value, 'wave_number', '', issues, { min: 1, integer: true });
+    if (value.previous_learnings_md !== undefined && typeof value.previous_learnings_md !== 'string') {
+      issues.push({ path: 'previous_learnings_md', message: `must be a string, got ${typeName(value.previous_learnings_md)}` });
+    }
+  }
+  return result(value, issues);
+}
+
+export function validateReportAnalysisRequest(value: unknown): ValidationResult<ReportAnalysisRequest> {
+  const issues: ValidationIssue[] = [];
+  if (requireObject(value, '', issues)) {
+    checkNumber(value, 'wave_number', '', issues, { min: 1, integer: true });
+    const results = checkArray(value, 'results', '', issues);
+    results?.forEach((entry, index) => {
+      const path = `results[${index}]`;
+      if (!requireObject(entry, path, issues)) return;
+      checkString(entry, 'artifact_id', path, issues);
+      checkNumber(entry, 'quality_score', path, issues, { min: 0 });
+      requireObject(entry.details, join(path, 'details'), issues);
+    });
+
+    if (typeof value.learnings_md !== 'string') {
+      issues.push({ path: 'learnings_md', message: `must be a string, got ${typeName(value.learnings_md)}` });
+    }
+    checkUsage(value, 'usage', issues);
+  }
+  return result(value, issues);
+}
+
+const GUIDANCE_SCOPES: GuidanceScope[] = ['wave', 'run'];
+
+export function validateOverrideControlRequest(value: unknown): ValidationResult<OverrideControlRequest> {
+  const issues: ValidationIssue[] = [];
+  if (requireObject(value, '', issues)) {
+    checkString(value, 'human_guidance_r2_path', '', issues);
+    checkString(value, 'requested_by', '', issues);
+    if (value.scope !== undefined && !GUIDANCE_SCOPES.includes(value.scope as GuidanceScope)) {
+      issues.push({ path: 'scope', message: `must be one of ${GUIDANCE_SCOPES.join(', ')}` });
+    }
+  }
+  return result(value, issues);
+}
+
+const REVIEW_ACTIONS: ReviewAction[] = ['approve', 'reject', 'edit_learnings'];
+
+export function validateReviewActionRequest(value: unknown): ValidationResult<ReviewActionRequest> {
+  const issues: ValidationIssue[] = [];
+  if (requireObject(value, '', issues)) {
+    if (!REVIEW_ACTIONS.includes(value.action as ReviewAction)) {
+      issues.push({ path: 'action', message: `must be one of ${REVIEW_ACTIONS.join(', ')}` });
+    }
+    if (value.action === 'edit_learnings') {
+      checkString(value, 'learnings_md', '', issues);
+    } else if (value.learnings_md !== undefined) {
+      issues.push({ path: 'learnings_md', message: 'is only accepted with the edit_learnings action' });
+    }
+  }
+  return result(value, issues);
+}
+
+export function validateStartRequest(value: unknown): ValidationResult<StartRequest> {
+  const issues: ValidationIssue[] = [];
+  if (requireObject(value, '', issues)) {
+    checkString(value, 'spec_content', '', issues);
+    checkString(value, 'scorecard_content', '', issues);
+
+    const conditions = value.termination_conditions;
+    const path = 'termination_conditions';
+    if (conditions !== undefined && requireObject(conditions, path, issues)) {
+      checkNumber(conditions, 'maxWaves', path, issues, { optional: true, min: 1, integer: true });
+      checkNumber(conditions, 'maxCost', path, issues, { optional: true, min: 0 });
+      checkNumber(conditions, 'minViableCandidates', path, issues, { optional: true, min: 1, integer: true });
+      checkNumber(conditions, 'viableScoreThreshold', path, issues, { optional: true, min: 0 });
+
+      const plateau = conditions.qualityPlateau;
+      if (plateau !== undefined && requireObject(plateau, join(path, 'qualityPlateau'), issues)) {
+        checkNumber(plateau, 'waves', join(path, 'qualityPlateau'), issues, { min: 1, integer: true });
+        checkNumber(plateau, 'delta', join(path, 'qualityPlateau'), issues, { min: 0 });
+      }
+
+      if (conditions.manualApproval !== undefined && typeof conditions.manualApproval !== 'boolean') {
+        issues.push({ path: join(path, 'manualApproval'), message: `must be a boolean, got ${typeName(conditions.manualApproval)}` });
+      }
+    }
+
+    checkDiversityConfig(value.diversity, 'diversity', issues);
+
+    const timeouts = value.job_timeouts;
+    if (timeouts !== undefined && requireObject(timeouts, 'job_timeouts', issues)) {
+      checkNumber(timeouts, 'generation_timeout_seconds', 'job_timeouts', issues, { optional: true, min: 1 });
+      checkNumber(timeouts, 'analysis_timeout_seconds', 'job_timeouts', issues, { optional: true, min: 1 });
+      checkNumber(timeouts, 'max_retries', 'job_timeouts', issues, { optional: true, min: 0, integer: true });
+    }
+
+    checkPricing(value.pricing, 'pricing', issues);
+  }
+  return result(value, issues);
+}
+
+/**
+ * Reads a JSON request body and validates it, reporting unparseable JSON as a
+ * root-level issue.
+ */
+export async function parseRequestBody<T>(
+  request: Request,
+  validate: (value: unknown) => ValidationResult<T>
+): Promise<ValidationResult<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { valid: false, errors: [{ path: ROOT_PATH, message: 'must be valid JSON' }] };
+  }
+  return validate(body);
+}
+
+/**
+ * Builds the structured 400 response both workers return for payloads that
+ * fail validation.
+ */
+export function createValidationErrorResponse(errors: ValidationIssue[], error = 'Invalid request body'): Response {
+  return new Response(JSON.stringify({ error, issues: errors }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}